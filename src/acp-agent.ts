@@ -2,13 +2,16 @@ import {
   Agent,
   AgentSideConnection,
   AuthenticateRequest,
+  AuthMethod,
   CancelNotification,
   ClientCapabilities,
   InitializeRequest,
   InitializeResponse,
   LoadSessionRequest,
+  McpServer as McpServerConfig,
   LoadSessionResponse,
   ndJsonStream,
+  RequestError,
   NewSessionRequest,
   NewSessionResponse,
   PromptRequest,
@@ -17,6 +20,11 @@ import {
   ReadTextFileResponse,
   SetSessionModeRequest,
   SetSessionModeResponse,
+  SetSessionModelRequest,
+  SetSessionModelResponse,
+  SessionModelState,
+  SessionMode,
+  SessionModeState,
   WriteTextFileRequest,
   WriteTextFileResponse,
   ContentBlock,
@@ -31,11 +39,19 @@ import {
   KillTerminalResponse,
   ReleaseTerminalRequest,
   ReleaseTerminalResponse,
+  ToolCallContent,
+  ToolCallUpdate,
 } from "@zed-industries/agent-client-protocol";
 
 // Define StopReason locally as it's not exported as a type from the ACP protocol library
 type StopReason = "end_turn" | "max_tokens" | "max_turn_requests" | "refusal" | "cancelled";
 
+// Tokens and cost (in USD) that OpenCode reports for model replies.
+type Usage = {
+  cost: number;
+  tokens: StepFinishPart["tokens"];
+};
+
 // Define TerminalExitStatus locally as it's not exported from the SDK
 type TerminalExitStatus = {
   exitCode: number | null;
@@ -51,16 +67,39 @@ import {
   createOpencodeClient,
   EventMessagePartUpdated,
   EventMessageUpdated,
+  Event,
+  Permission,
+  Session as OpencodeSession,
+  StepFinishPart,
+  ToolPart,
 } from "@opencode-ai/sdk";
-import { nodeToWebReadable, nodeToWebWritable, Pushable } from "./utils.js";
+import * as fs from "node:fs/promises";
+import { constants as osConstants } from "node:os";
+import * as path from "node:path";
+import {
+  loadResumedSession,
+  ManagedSettings,
+  nodeToWebReadable,
+  nodeToWebWritable,
+  Pushable,
+  saveResumedSession,
+} from "./utils.js";
 import { loadAvailableCommands } from "./command-loader.js";
+import { planEntries, Todo, toolInfoFromToolPart, toolUpdateFromToolPart } from "./tools.js";
+import { denialReason, formatRule, PermissionRuleStore, suggestRule } from "./permissions.js";
+import {
+  connectMcpServer,
+  EDITOR_MCP_SERVER_NAME,
+  McpConnection,
+  proxiedToolName,
+} from "./mcp-proxy.js";
 
 type BackgroundTerminal = {
   handle: {
     id: string;
     currentOutput: () => Promise<TerminalOutputResponse>;
     kill: () => Promise<KillTerminalResponse>;
-    release: () => Promise<ReleaseTerminalResponse>;
+    release: () => Promise<ReleaseTerminalResponse | void>;
     waitForExit: () => Promise<WaitForTerminalExitResponse>;
   };
   lastOutput: TerminalOutputResponse | null;
@@ -71,6 +110,18 @@ type BackgroundTerminal = {
   exitStatus: TerminalExitStatus | null;
 };
 
+// A command run by `createTerminal`, in its own OpenCode session.
+type ShellTerminal = {
+  opencodeClient: ReturnType<typeof createOpencodeClient>;
+  opencodeSessionId: string;
+  output: string; // streamed from the shell's tool part, at most outputByteLimit bytes
+  outputByteLimit: number | null;
+  truncated: boolean;
+  exitStatus: TerminalExitStatus | null;
+  killed: boolean;
+  exited: Promise<TerminalExitStatus>;
+};
+
 // Define local enums for ToolCallStatus and ToolKind based on ACP schema
 enum ToolCallStatus {
   Pending = "pending",
@@ -92,29 +143,31 @@ enum ToolKind {
   Other = "other",
 }
 
-// Define PlanEntry types for structured plan updates
-enum PlanEntryPriority {
-  High = "high",
-  Medium = "medium",
-  Low = "low",
-}
-
-enum PlanEntryStatus {
-  Pending = "pending",
-  InProgress = "in_progress",
-  Completed = "completed",
-}
+// Whether a tool may run, and the reason shown for a denial.
+type ToolPermissionDecision = { allowed: true } | { allowed: false; reason: string };
 
-type PlanEntry = {
-  content: string;
-  priority: PlanEntryPriority;
-  status: PlanEntryStatus;
+// A session started by a `task` tool call, whose activity is shown in that tool call.
+type Subagent = {
+  sessionId: string; // ACP session of the task
+  toolCallId: string;
+  toolCalls: Map<string, ToolPart>; // the subagent's tool calls, by call ID
 };
 
 type Session = {
   input: Pushable<UserMessage>;
   cancelled: boolean;
+  cwd: string;
+  opencodeSessionId: string; // differs from the ACP session ID after `/resume`
   permissionMode: string;
+  agent?: string; // OpenCode agent picked as a mode; the default "build" agent when unset
+  model?: { providerID: string; modelID: string }; // sent with every prompt
+  permissionRules: PermissionRuleStore;
+  permissionDenials: Map<string, string>; // tool call ID -> why the permission was denied
+  runningToolCalls: Map<string, ToolPart>; // tool call ID -> part, for MCP tools to find their call
+  toolCallWatchers: Set<() => void>; // notified whenever a tool part changes
+  toolCallTerminals: Map<string, string>; // tool call ID -> client terminal shown in it
+  previousFileContents: Map<string, string | null>; // tool call ID -> file before it was written
+  mcpConnections: McpConnection[]; // the editor's MCP servers for this session
   opencodeClient: ReturnType<typeof createOpencodeClient>;
   messageUpdateResolver?: (message: AssistantMessage) => void;
   lastSentTextByMessagePartId: Map<string, string>; // Add this to store the last sent text for delta calculation
@@ -129,212 +182,661 @@ export class OpenCodeAcpAgent implements Agent {
   opencodeClient: ReturnType<typeof createOpencodeClient>;
   clientCapabilities?: ClientCapabilities;
   backgroundTerminals: { [id: string]: BackgroundTerminal }; // Add this line
-
-  constructor(client: AgentSideConnection, baseUrl: string) {
+  private terminals: { [id: string]: ShellTerminal };
+  private subagents: { [opencodeSessionId: string]: Subagent };
+  managedSettings: ManagedSettings | null;
+  acpTools: boolean; // whether OpenCode was started with the tools from `startMcpServer`
+  usageNotifications: boolean; // whether to send `_opencode/usage` after every model step
+
+  constructor(
+    client: AgentSideConnection,
+    baseUrl: string,
+    managedSettings: ManagedSettings | null = null,
+    headers: Record<string, string> = {},
+    acpTools = false,
+    usageNotifications = false,
+  ) {
     this.sessions = {};
     this.client = client;
+    this.managedSettings = managedSettings;
+    this.acpTools = acpTools;
+    this.usageNotifications = usageNotifications;
     this.opencodeClient = createOpencodeClient({
       baseUrl: baseUrl,
+      headers,
     });
     this.backgroundTerminals = {}; // Initialize backgroundTerminals
+    this.terminals = {};
+    this.subagents = {};
 
     this.setupEventHandlers();
   }
 
+  /**
+   * Consumes OpenCode's event stream for the lifetime of the agent. When the stream breaks it
+   * resubscribes with exponential backoff and resynchronizes the replies that were streaming,
+   * and if the server stays unreachable every session is told that updates have stopped.
+   */
   private async setupEventHandlers() {
-    console.error(`[setupEventHandlers] Subscribing to OpenCode events.`);
-    const events = await this.opencodeClient.event.subscribe();
-    console.error(`[setupEventHandlers] Event stream started.`);
-    for await (const event of events.stream) {
-      console.error(`[setupEventHandlers] Received event: ${event.type}`);
-      if (event.type === "message.part.updated") {
-        const partUpdatedEvent = event as EventMessagePartUpdated; // Explicitly cast the event
-        const { part } = partUpdatedEvent.properties; // Get the part object
-        const sessionID = part.sessionID; // Extract sessionID from the part object
-
-        console.error(
-          `[setupEventHandlers] Processing message.part.updated for sessionID: ${sessionID}, partID: ${part.id}, type: ${part.type}`,
-        );
+    let failedAttempts = 0;
+    let disconnectedAt: number | undefined;
+    let lastError: unknown;
+
+    for (;;) {
+      console.error(`[setupEventHandlers] Subscribing to OpenCode events.`);
+      try {
+        const events = await this.opencodeClient.event.subscribe({
+          // Reconnect here instead of inside the SDK, so that missed events can be recovered.
+          sseMaxRetryAttempts: 1,
+          onSseError: (error) => {
+            lastError = error;
+          },
+        });
+        for await (const event of events.stream) {
+          if (disconnectedAt !== undefined) {
+            console.error(`[setupEventHandlers] Event stream reconnected.`);
+            await this.resyncSessions(disconnectedAt);
+            disconnectedAt = undefined;
+            failedAttempts = 0;
+          }
+          try {
+            await this.handleEvent(event);
+          } catch (error) {
+            console.error(`[setupEventHandlers] Failed to handle ${event.type} event:`, error);
+          }
+        }
+        console.error(`[setupEventHandlers] Event stream ended.`);
+      } catch (error) {
+        lastError = error;
+        console.error(`[setupEventHandlers] Event stream failed:`, error);
+      }
 
-        // Simplified echo filter: if part.type is 'text' and has no 'time' property, it's an echo of user input.
-        if (part.type === "text" && !part.time) {
-          console.error(
-            `[ECHO FILTER]: Dropping echo of user input (text part with no timestamp) for sessionID: ${sessionID}, partID: ${part.id}`,
-          );
-          continue; // Skip this echo
+      disconnectedAt ??= Date.now();
+      failedAttempts++;
+      if (failedAttempts > EVENT_STREAM_MAX_RECONNECT_ATTEMPTS) {
+        await this.notifyEventStreamLost(lastError);
+        return;
+      }
+      const delay = Math.min(EVENT_STREAM_RETRY_DELAY_MS * 2 ** (failedAttempts - 1), 30_000);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  private async handleEvent(event: Event) {
+    console.error(`[handleEvent] Received event: ${event.type}`);
+    if (event.type === "message.part.updated") {
+      const partUpdatedEvent = event as EventMessagePartUpdated; // Explicitly cast the event
+      await this.handlePartUpdated(partUpdatedEvent.properties.part);
+    } else if (event.type === "permission.updated") {
+      // Don't block the event stream while the user decides; other sessions (and the
+      // tool call this permission belongs to) still need their updates.
+      this.handlePermissionRequest(event.properties).catch((error) => {
+        console.error(`[handleEvent] Failed to handle permission ${event.properties.id}:`, error);
+      });
+    } else if ((event as { type: string }).type === "todo.updated") {
+      // Not in the SDK's event types yet; sent whenever the todo tools change a session's todos.
+      const { sessionID, todos } = (
+        event as unknown as { properties: { sessionID: string; todos: Todo[] } }
+      ).properties;
+      const acpSessionId = this.acpSessionIdFor(sessionID);
+      if (acpSessionId) {
+        await this.client.sessionUpdate({
+          sessionId: acpSessionId,
+          update: { sessionUpdate: "plan", entries: planEntries({ todos }) },
+        });
+      }
+    } else if (event.type === "session.updated") {
+      this.trackSubagent(event.properties.info);
+    } else if (event.type === "message.updated") {
+      const messageUpdatedEvent = event as EventMessageUpdated;
+      const { info: messageInfo } = messageUpdatedEvent.properties;
+      const acpSessionId = this.acpSessionIdFor(messageInfo.sessionID);
+      const session = acpSessionId ? this.sessions[acpSessionId] : undefined;
+      if (session && session.messageUpdateResolver) {
+        session.messageUpdateResolver(messageInfo as AssistantMessage);
+      }
+    }
+  }
+
+  private async handlePartUpdated(part: Part) {
+    const sessionID = part.sessionID; // Extract sessionID from the part object
+
+    const terminal = Object.values(this.terminals).find(
+      (terminal) => terminal.opencodeSessionId === sessionID,
+    );
+    if (terminal) {
+      if (part.type === "tool" && !terminal.exitStatus) {
+        if (part.state.status === "running" && typeof part.state.metadata?.output === "string") {
+          updateTerminalOutput(terminal, part.state.metadata.output);
+        } else if (part.state.status === "completed") {
+          updateTerminalOutput(terminal, part.state.output);
         }
+      }
+      return;
+    }
 
-        if (!sessionID || !part) {
-          console.warn(
-            `[Event Handler] Missing sessionID or part in message.part.updated event properties: ${JSON.stringify(partUpdatedEvent.properties)}`,
-          );
-          continue; // Skip this malformed event
+    const subagent = this.subagents[sessionID];
+    if (subagent) {
+      if (part.type === "tool") {
+        // Subagents call the MCP tools too, which look for their call in the ACP session.
+        const session = this.sessions[subagent.sessionId];
+        if (part.state.status === "running") {
+          session.runningToolCalls.set(part.callID, part);
+        } else {
+          session.runningToolCalls.delete(part.callID);
+          // A terminal shown in the task while the subagent ran a command mustn't replace the
+          // task's summary.
+          session.toolCallTerminals.delete(subagent.toolCallId);
         }
+        session.toolCallWatchers.forEach((notify) => notify());
 
-        const session = this.sessions[sessionID];
-        if (session) {
-          // Implement Delta Calculation for Text Parts
-          if (part.type === "text") {
-            const currentText = part.text;
-            const previousText = session.lastSentTextByMessagePartId.get(part.id) || "";
-            const deltaText = currentText.substring(previousText.length);
-
-            session.lastSentTextByMessagePartId.set(part.id, currentText);
-
-            if (deltaText.length > 0) {
-              await this.client.sessionUpdate({
-                sessionId: sessionID,
-                update: {
-                  sessionUpdate: "agent_message_chunk",
-                  content: { type: "text", text: deltaText },
-                },
-              });
-              console.error(
-                `[setupEventHandlers] Sent agent_message_chunk delta for part ${part.id}`,
-              );
-            }
-            continue; // Skip further processing for this text part, as its delta has been handled.
-          }
+        subagent.toolCalls.set(part.callID, part);
+        await this.client.sessionUpdate({
+          sessionId: subagent.sessionId,
+          update: {
+            sessionUpdate: "tool_call_update",
+            toolCallId: subagent.toolCallId,
+            content: subagentActivity(subagent),
+          },
+        });
+      }
+      return;
+    }
 
-          // Implement Delta Calculation for Reasoning Parts
-          if (part.type === "reasoning") {
-            const currentText = part.text;
-            const previousText = session.lastSentTextByMessagePartId.get(part.id) || "";
-            const deltaText = currentText.substring(previousText.length);
-            session.lastSentTextByMessagePartId.set(part.id, currentText);
-
-            if (deltaText.length > 0) {
-              await this.client.sessionUpdate({
-                sessionId: sessionID,
-                update: {
-                  sessionUpdate: "agent_thought_chunk",
-                  content: { type: "text", text: deltaText },
-                },
-              });
-              console.error(
-                `[setupEventHandlers] Sent agent_thought_chunk delta for part ${part.id}`,
-              );
-            }
-            continue; // Skip further processing for this reasoning part, as its delta has been handled.
-          }
+    console.error(
+      `[handlePartUpdated] Processing message.part.updated for sessionID: ${sessionID}, partID: ${part.id}, type: ${part.type}`,
+    );
 
-          // Handle tool parts with permission requests
-          if (part.type === "tool" && part.state.status === "pending") {
-            const { callID, tool } = part;
-            const toolDescription = `Allow agent to run tool: ${tool}?`;
-
-            let permissionGranted = false;
-            if (
-              session.permissionMode === "bypassPermissions" ||
-              session.permissionMode === "acceptEdits"
-            ) {
-              permissionGranted = true;
-            } else if (session.permissionMode === "plan") {
-              await this.client.sessionUpdate({
-                sessionId: sessionID,
-                update: {
-                  sessionUpdate: "tool_call_update",
-                  toolCallId: callID,
-                  status: ToolCallStatus.Failed,
-                  content: [
-                    {
-                      type: "content",
-                      content: { type: "text", text: `Tool execution blocked in Plan Mode.` },
-                    },
-                  ],
-                },
-              });
-              continue; // Skip further processing for this tool
-            } else {
-              // "default" mode - Always Ask
-              await this.client.sessionUpdate({
-                sessionId: sessionID,
-                update: {
-                  sessionUpdate: "tool_call",
-                  toolCallId: callID,
-                  title: tool,
-                  status: ToolCallStatus.Pending,
-                  kind: mapToolKind(tool),
-                  content: (part as any).content || [],
-                },
-              });
+    // Simplified echo filter: if part.type is 'text' and has no 'time' property, it's an echo of user input.
+    if (part.type === "text" && !part.time) {
+      console.error(
+        `[ECHO FILTER]: Dropping echo of user input (text part with no timestamp) for sessionID: ${sessionID}, partID: ${part.id}`,
+      );
+      return; // Skip this echo
+    }
 
-              const permissionResponse = await this.client.requestPermission({
-                sessionId: sessionID,
-                toolCall: {
-                  toolCallId: callID,
-                  title: toolDescription,
-                },
-                options: [
-                  { optionId: "allow_once", name: "Allow Once", kind: "allow_once" },
-                  { optionId: "reject_once", name: "Deny", kind: "reject_once" },
-                ],
-              });
-
-              if (
-                permissionResponse.outcome.outcome !== "selected" ||
-                permissionResponse.outcome.optionId !== "allow_once"
-              ) {
-                await this.client.sessionUpdate({
-                  sessionId: sessionID,
-                  update: {
-                    sessionUpdate: "tool_call_update",
-                    toolCallId: callID,
-                    status: ToolCallStatus.Failed,
-                    content: [
-                      {
-                        type: "content",
-                        content: { type: "text", text: `Permission for tool '${tool}' denied.` },
-                      },
-                    ],
-                  },
-                });
-                continue; // Skip further processing for this tool
-              }
-            }
+    if (!sessionID || !part) {
+      console.warn(
+        `[Event Handler] Missing sessionID or part in message.part.updated event: ${JSON.stringify(part)}`,
+      );
+      return; // Skip this malformed event
+    }
+
+    const acpSessionId = this.acpSessionIdFor(sessionID);
+    const session = acpSessionId ? this.sessions[acpSessionId] : undefined;
+    if (acpSessionId && session) {
+      // Implement Delta Calculation for Text Parts
+      if (part.type === "text") {
+        const currentText = part.text;
+        const previousText = session.lastSentTextByMessagePartId.get(part.id) || "";
+        const deltaText = currentText.substring(previousText.length);
 
-            if (permissionGranted) {
-              // If permission is granted (or automatically accepted), then send the tool_call notification.
-              // Note: The tool_call notification for pending status is already sent above if permissionMode is "default".
-              // For other modes, we need to send it here.
-              if (session.permissionMode !== "default") {
-                await this.client.sessionUpdate({
-                  sessionId: sessionID,
-                  update: {
-                    sessionUpdate: "tool_call",
-                    toolCallId: callID,
-                    title: tool,
-                    status: ToolCallStatus.Pending,
-                    kind: mapToolKind(tool),
-                    content: (part as any).content || [],
-                  },
-                });
-              }
+        session.lastSentTextByMessagePartId.set(part.id, currentText);
+
+        if (deltaText.length > 0) {
+          await this.client.sessionUpdate({
+            sessionId: acpSessionId,
+            update: {
+              sessionUpdate: "agent_message_chunk",
+              content: { type: "text", text: deltaText },
+            },
+          });
+          console.error(`[handlePartUpdated] Sent agent_message_chunk delta for part ${part.id}`);
+        }
+        return; // Skip further processing for this text part, as its delta has been handled.
+      }
+
+      // Implement Delta Calculation for Reasoning Parts
+      if (part.type === "reasoning") {
+        const currentText = part.text;
+        const previousText = session.lastSentTextByMessagePartId.get(part.id) || "";
+        const deltaText = currentText.substring(previousText.length);
+        session.lastSentTextByMessagePartId.set(part.id, currentText);
+
+        if (deltaText.length > 0) {
+          await this.client.sessionUpdate({
+            sessionId: acpSessionId,
+            update: {
+              sessionUpdate: "agent_thought_chunk",
+              content: { type: "text", text: deltaText },
+            },
+          });
+          console.error(`[handlePartUpdated] Sent agent_thought_chunk delta for part ${part.id}`);
+        }
+        return; // Skip further processing for this reasoning part, as its delta has been handled.
+      }
+
+      if (part.type === "step-finish" && this.usageNotifications) {
+        await this.client.extNotification("opencode/usage", {
+          sessionId: acpSessionId,
+          usage: { cost: part.cost, tokens: part.tokens },
+        });
+      }
+
+      if (part.type === "tool") {
+        if (part.state.status === "running") {
+          session.runningToolCalls.set(part.callID, part);
+        } else {
+          session.runningToolCalls.delete(part.callID);
+        }
+        session.toolCallWatchers.forEach((notify) => notify());
+      }
+
+      let previousContent: string | null | undefined = undefined;
+      if (part.type === "tool" && FILE_CHANGING_TOOLS.includes(part.tool)) {
+        // Writes don't report what they replaced, and edits don't report which lines they
+        // changed, so read the file before the change lands. This is best effort: a change that
+        // isn't held up by a permission prompt can win the race.
+        const { state } = part;
+        if (state.status === "running" && !session.previousFileContents.has(part.callID)) {
+          const input = state.input as
+            | { filePath?: string; abs_path?: string; file_path?: string }
+            | undefined;
+          const filePath = input?.filePath ?? input?.abs_path ?? input?.file_path;
+          if (filePath) {
+            session.previousFileContents.set(
+              part.callID,
+              await this.readPreviousContent(acpSessionId, filePath),
+            );
+          }
+        }
+        previousContent = session.previousFileContents.get(part.callID);
+        if (state.status === "completed" || state.status === "error") {
+          session.previousFileContents.delete(part.callID);
+        }
+      }
+
+      // Remaining part types, including tool parts in every state
+      const notifications = toAcpNotifications(
+        {} as AssistantMessage, // Placeholder, as full message info is not in part update
+        part,
+        acpSessionId,
+        previousContent,
+      );
+      const terminalId = part.type === "tool" ? session.toolCallTerminals.get(part.callID) : null;
+      if (part.type === "tool" && terminalId) {
+        // The terminal already shows the command's output as it runs.
+        for (const notification of notifications) {
+          if (notification.update.sessionUpdate === "tool_call_update") {
+            notification.update.content = [{ type: "terminal", terminalId }];
+          }
+        }
+        if (part.state.status === "completed" || part.state.status === "error") {
+          session.toolCallTerminals.delete(part.callID);
+        }
+      }
+      const task =
+        part.type === "tool" && part.tool === "task"
+          ? Object.values(this.subagents).find(
+              (subagent) =>
+                subagent.sessionId === acpSessionId && subagent.toolCallId === part.callID,
+            )
+          : undefined;
+      if (part.type === "tool" && task) {
+        // Keep showing what the subagent did, followed by its summary once it's done.
+        for (const notification of notifications) {
+          if (notification.update.sessionUpdate === "tool_call_update") {
+            notification.update.content =
+              part.state.status === "running"
+                ? subagentActivity(task)
+                : [...subagentActivity(task), ...(notification.update.content ?? [])];
+          }
+        }
+        if (part.state.status === "completed" || part.state.status === "error") {
+          for (const [opencodeSessionId, subagent] of Object.entries(this.subagents)) {
+            if (subagent.toolCallId === part.callID) {
+              delete this.subagents[opencodeSessionId];
             }
           }
+        }
+      }
+      if (part.type === "tool" && part.state.status === "error") {
+        // OpenCode reports a rejected permission as a generic tool error; keep showing
+        // why it was rejected instead.
+        const reason = session.permissionDenials.get(part.callID);
+        for (const notification of notifications) {
+          if (reason && notification.update.sessionUpdate === "tool_call_update") {
+            notification.update.content = [
+              { type: "content", content: { type: "text", text: reason } },
+            ];
+          }
+        }
+        session.permissionDenials.delete(part.callID);
+      }
+      for (const notification of notifications) {
+        await this.client.sessionUpdate(notification);
+        // console.error(`[handlePartUpdated] Sent notification for part ${part.id}, type: ${part.type}`); // Removed to prevent parsing errors
+      }
+    }
+  }
 
-          // Ensure Other Part Types are Handled or remaining tool parts
-          const notifications = toAcpNotifications(
-            {} as AssistantMessage, // Placeholder, as full message info is not in part update
-            part,
-            sessionID,
-          );
-          for (const notification of notifications) {
-            await this.client.sessionUpdate(notification);
-            // console.error(`[setupEventHandlers] Sent notification for part ${part.id}, type: ${part.type}`); // Removed to prevent parsing errors
+  /**
+   * Resolves with the ID of the OpenCode tool call running the MCP tool `toolName` with `input`,
+   * or of the task a subagent's tool call belongs to, as that is the one the editor knows. MCP
+   * requests can arrive before the tool part's event, so this waits for it up to `timeout` and
+   * resolves with undefined if it never shows up.
+   */
+  findToolCallId(
+    sessionId: string,
+    toolName: string,
+    input: Record<string, unknown>,
+    timeout = 2000,
+  ): Promise<string | undefined> {
+    const session = this.sessions[sessionId];
+    if (!session) {
+      return Promise.resolve(undefined);
+    }
+    const matches = (part: ToolPart) =>
+      part.state.status === "running" &&
+      (part.tool === toolName || part.tool.endsWith(`_${toolName}`)) &&
+      Object.entries(part.state.input ?? {}).every(
+        ([key, value]) => JSON.stringify(input[key]) === JSON.stringify(value),
+      );
+
+    return new Promise((resolve) => {
+      const check = () => {
+        const part = [...session.runningToolCalls.values()].find(matches);
+        if (part) {
+          done(this.subagents[part.sessionID]?.toolCallId ?? part.callID);
+        }
+      };
+      const done = (toolCallId: string | undefined) => {
+        clearTimeout(timer);
+        session.toolCallWatchers.delete(check);
+        resolve(toolCallId);
+      };
+      const timer = setTimeout(() => done(undefined), timeout);
+      session.toolCallWatchers.add(check);
+      check();
+    });
+  }
+
+  /** Like `findToolCallId`, but looks in every session. */
+  async findToolCall(
+    toolName: string,
+    input: Record<string, unknown>,
+    timeout = 2000,
+  ): Promise<{ sessionId: string; toolCallId: string } | undefined> {
+    const sessionIds = Object.keys(this.sessions);
+    return new Promise((resolve) => {
+      let remaining = sessionIds.length;
+      if (remaining === 0) {
+        resolve(undefined);
+      }
+      for (const sessionId of sessionIds) {
+        this.findToolCallId(sessionId, toolName, input, timeout).then((toolCallId) => {
+          if (toolCallId) {
+            resolve({ sessionId, toolCallId });
+          } else if (--remaining === 0) {
+            resolve(undefined);
           }
+        });
+      }
+    });
+  }
+
+  /**
+   * Re-reads the replies that were in progress or finished while the event stream was down and
+   * feeds their parts through the usual handler. Text deltas stay correct because they are
+   * computed against `lastSentTextByMessagePartId`.
+   */
+  private async resyncSessions(disconnectedAt: number) {
+    for (const session of Object.values(this.sessions)) {
+      const { data: messages, error } = await session.opencodeClient.session.messages({
+        path: { id: session.opencodeSessionId },
+      });
+      if (error || !messages) {
+        console.error(`[resyncSessions] Failed to fetch ${session.opencodeSessionId}:`, error);
+        continue;
+      }
+      for (const message of messages) {
+        const info = message.info as AssistantMessage;
+        if (info.role !== "assistant" || (info.time.completed ?? Infinity) < disconnectedAt) {
+          continue;
         }
-      } else if (event.type === "message.updated") {
-        const messageUpdatedEvent = event as EventMessageUpdated;
-        const { info: messageInfo } = messageUpdatedEvent.properties;
-        const session = this.sessions[messageInfo.sessionID];
-        if (session && session.messageUpdateResolver) {
-          session.messageUpdateResolver(messageInfo as AssistantMessage);
+        for (const part of message.parts) {
+          await this.handlePartUpdated(part);
         }
       }
     }
   }
 
+  private async notifyEventStreamLost(error: unknown) {
+    const reason = error instanceof Error ? error.message : String(error ?? "the stream ended");
+    for (const sessionId of Object.keys(this.sessions)) {
+      await this.client.sessionUpdate({
+        sessionId,
+        update: {
+          sessionUpdate: "agent_message_chunk",
+          content: {
+            type: "text",
+            text: `❌ Lost connection to the OpenCode server (${reason}). This session will not receive further updates; restart the agent to continue.`,
+          },
+        },
+      });
+    }
+  }
+
+  /**
+   * Shows the activity of a session started by a running `task` tool call in that tool call. The
+   * task tool titles its session after the task's description. Subagents of subagents are shown
+   * in the same tool call.
+   */
+  private trackSubagent(info: OpencodeSession): void {
+    if (!info.parentID || this.subagents[info.id]) {
+      return;
+    }
+    const parent = this.subagents[info.parentID];
+    if (parent) {
+      this.subagents[info.id] = parent;
+      return;
+    }
+    const sessionId = this.acpSessionIdFor(info.parentID);
+    if (!sessionId) {
+      return;
+    }
+    const tracked = new Set(Object.values(this.subagents).map((subagent) => subagent.toolCallId));
+    const task = [...this.sessions[sessionId].runningToolCalls.values()].find((part) => {
+      const input =
+        part.state.status === "running"
+          ? (part.state.input as { description?: string } | undefined)
+          : undefined;
+      return (
+        part.tool === "task" &&
+        part.sessionID === info.parentID &&
+        !tracked.has(part.callID) &&
+        !!input?.description &&
+        info.title.startsWith(input.description)
+      );
+    });
+    if (task) {
+      this.subagents[info.id] = { sessionId, toolCallId: task.callID, toolCalls: new Map() };
+    }
+  }
+
+  // Maps the OpenCode session ID of an event to the ACP session it is attached to.
+  private acpSessionIdFor(opencodeSessionId: string): string | undefined {
+    return Object.keys(this.sessions).find(
+      (sessionId) => this.sessions[sessionId].opencodeSessionId === opencodeSessionId,
+    );
+  }
+
+  private createPermissionRuleStore(cwd: string): PermissionRuleStore {
+    return new PermissionRuleStore(cwd, undefined, this.managedSettings);
+  }
+
+  /**
+   * Bridges an OpenCode permission request to ACP `requestPermission` and posts the
+   * decision back to OpenCode, so a denial actually stops the tool from running.
+   */
+  private async handlePermissionRequest(permission: Permission): Promise<void> {
+    const subagent = this.subagents[permission.sessionID];
+    const sessionId = subagent?.sessionId ?? this.acpSessionIdFor(permission.sessionID);
+    const session = sessionId ? this.sessions[sessionId] : undefined;
+    if (!sessionId || !session) {
+      console.warn(
+        `[handlePermissionRequest] Ignoring permission ${permission.id} for unknown session ${permission.sessionID}`,
+      );
+      return;
+    }
+
+    // The editor only knows the task a subagent's tool calls belong to.
+    const toolCallId = subagent?.toolCallId ?? permission.callID ?? permission.id;
+    const decision = await this.decideToolPermission(
+      sessionId,
+      permission.type,
+      permission.metadata,
+      {
+        toolCallId,
+        title: permission.title,
+        kind: mapToolKind(permission.type),
+        rawInput: permission.metadata,
+      },
+    );
+    const response = decision.allowed ? "once" : "reject";
+    const deniedReason = decision.allowed ? undefined : decision.reason;
+
+    const { error } = await session.opencodeClient.postSessionIdPermissionsPermissionId({
+      path: { id: permission.sessionID, permissionID: permission.id },
+      body: { response },
+    });
+    if (error) {
+      console.error(
+        `[handlePermissionRequest] Failed to respond to permission ${permission.id}:`,
+        error,
+      );
+    }
+
+    // A subagent carries on after a denied tool call, so its task hasn't failed.
+    if (deniedReason && !subagent) {
+      session.permissionDenials.set(toolCallId, deniedReason);
+      await this.client.sessionUpdate({
+        sessionId,
+        update: {
+          sessionUpdate: "tool_call_update",
+          toolCallId,
+          status: ToolCallStatus.Failed,
+          content: [{ type: "content", content: { type: "text", text: deniedReason } }],
+        },
+      });
+    }
+  }
+
+  /**
+   * Decides whether a session may run a tool, for OpenCode's permission requests and the tools of
+   * the `acp` MCP server alike. Rules (managed ones first) are consulted before the mode, so a
+   * managed deny rule can't be bypassed, not even in bypassPermissions mode. The user is asked
+   * when neither decides.
+   */
+  async decideToolPermission(
+    sessionId: string,
+    toolName: string,
+    input: any,
+    toolCall: ToolCallUpdate & { kind: NonNullable<ToolCallUpdate["kind"]> },
+  ): Promise<ToolPermissionDecision> {
+    const session = this.sessions[sessionId];
+    const ruleDecision = await session.permissionRules.decide(toolName, input);
+    if (ruleDecision?.behavior === "deny") {
+      return { allowed: false, reason: denialReason(toolName, ruleDecision) };
+    }
+
+    if (session.permissionMode === "plan" && !isReadOnlyToolKind(toolCall.kind)) {
+      // Anything that modifies the workspace means the model wants to leave planning.
+      return (await this.requestExitPlanMode(sessionId, toolCall))
+        ? { allowed: true }
+        : { allowed: false, reason: "Tool execution blocked in Plan Mode." };
+    }
+
+    if (
+      ruleDecision?.behavior === "allow" ||
+      session.permissionMode === "bypassPermissions" ||
+      (session.permissionMode === "acceptEdits" && toolCall.kind === "edit")
+    ) {
+      return { allowed: true };
+    }
+
+    // "default" mode (and read-only tools in "plan" mode) - Always Ask
+    const rule = suggestRule(toolName, input, session.cwd);
+    const permissionResponse = await this.client.requestPermission({
+      sessionId,
+      toolCall,
+      options: [
+        ...(rule
+          ? [
+              {
+                optionId: "allow_always",
+                name: `Always Allow \`${formatRule(rule)}\``,
+                kind: "allow_always" as const,
+              },
+            ]
+          : []),
+        { optionId: "allow_once", name: "Allow Once", kind: "allow_once" },
+        { optionId: "reject_once", name: "Deny", kind: "reject_once" },
+        ...(rule
+          ? [
+              {
+                optionId: "reject_always",
+                name: `Always Deny \`${formatRule(rule)}\``,
+                kind: "reject_always" as const,
+              },
+            ]
+          : []),
+      ],
+    });
+
+    const optionId =
+      permissionResponse.outcome.outcome === "selected"
+        ? permissionResponse.outcome.optionId
+        : undefined;
+    if (rule && (optionId === "allow_always" || optionId === "reject_always")) {
+      await session.permissionRules.addRule(optionId === "allow_always" ? "allow" : "deny", rule);
+    }
+    return optionId === "allow_once" || optionId === "allow_always"
+      ? { allowed: true }
+      : { allowed: false, reason: `Permission for tool '${toolName}' denied.` };
+  }
+
+  /**
+   * Asks the user whether to leave Plan Mode. On approval the session switches to the chosen
+   * permission mode and the client is told about the new mode.
+   */
+  async requestExitPlanMode(sessionId: string, toolCall: ToolCallUpdate): Promise<boolean> {
+    const session = this.sessions[sessionId];
+    if (!session) {
+      return false;
+    }
+
+    const response = await this.client.requestPermission({
+      options: [
+        {
+          kind: "allow_always",
+          name: "Yes, and auto-accept edits",
+          optionId: "acceptEdits",
+        },
+        { kind: "allow_once", name: "Yes, and manually approve edits", optionId: "default" },
+        { kind: "reject_once", name: "No, keep planning", optionId: "plan" },
+      ],
+      sessionId,
+      toolCall: { ...toolCall, title: toolCall.title ?? "Ready to code?" },
+    });
+
+    if (
+      response.outcome?.outcome === "selected" &&
+      (response.outcome.optionId === "default" || response.outcome.optionId === "acceptEdits")
+    ) {
+      session.permissionMode = response.outcome.optionId;
+      await this.client.sessionUpdate({
+        sessionId,
+        update: {
+          sessionUpdate: "current_mode_update",
+          currentModeId: response.outcome.optionId,
+        },
+      });
+      return true;
+    }
+    return false;
+  }
+
   async initialize(request: InitializeRequest): Promise<InitializeResponse> {
     this.clientCapabilities = request.clientCapabilities;
     return {
@@ -347,7 +849,7 @@ export class OpenCodeAcpAgent implements Agent {
         },
         mcpCapabilities: {
           http: true,
-          sse: false,
+          sse: true,
         },
         loadSession: true,
         _meta: {
@@ -357,10 +859,45 @@ export class OpenCodeAcpAgent implements Agent {
           },
         },
       },
-      authMethods: [],
+      authMethods: [
+        OPENCODE_LOGIN_AUTH_METHOD,
+        ...(await this.getAuthProviders()).map((provider) => ({
+          id: provider.id,
+          name: provider.name,
+          description:
+            provider.env.length > 0
+              ? `Stores the API key passed in the request, or the one in ${provider.env.map((name) => `$${name}`).join(" or ")}`
+              : "Stores the API key passed in the request",
+        })),
+      ],
     };
   }
 
+  /**
+   * The providers that can be logged in to with an API key. OpenCode only lists the providers it
+   * has credentials for, so the ones configured for it, including its model's, are added.
+   */
+  private async getAuthProviders(): Promise<{ id: string; name: string; env: string[] }[]> {
+    const [{ data: providersData, error }, { data: config }] = await Promise.all([
+      this.opencodeClient.config.providers(),
+      this.opencodeClient.config.get(),
+    ]);
+    if (error) {
+      console.error("Error fetching providers:", error);
+    }
+    const providers = new Map(
+      (providersData?.providers ?? []).map(({ id, name, env }) => [id, { id, name, env }]),
+    );
+    for (const [id, provider] of Object.entries(config?.provider ?? {})) {
+      providers.set(id, { id, name: provider.name ?? id, env: provider.env ?? [] });
+    }
+    const modelProviderID = config?.model?.split("/")[0];
+    if (modelProviderID && !providers.has(modelProviderID)) {
+      providers.set(modelProviderID, { id: modelProviderID, name: modelProviderID, env: [] });
+    }
+    return [...providers.values()];
+  }
+
   async newSession(params: NewSessionRequest): Promise<NewSessionResponse> {
     console.error(`[newSession] CWD received: ${params.cwd}`);
     const { data: sessionData, error: sessionError } = await this.opencodeClient.session.create({
@@ -378,10 +915,20 @@ export class OpenCodeAcpAgent implements Agent {
     this.sessions[sessionId] = {
       input: input,
       cancelled: false,
+      cwd: params.cwd,
+      opencodeSessionId: sessionId,
       permissionMode: "default",
+      permissionRules: this.createPermissionRuleStore(params.cwd),
+      permissionDenials: new Map<string, string>(),
+      runningToolCalls: new Map<string, ToolPart>(),
+      toolCallWatchers: new Set<() => void>(),
+      toolCallTerminals: new Map<string, string>(),
+      previousFileContents: new Map<string, string | null>(),
+      mcpConnections: [],
       opencodeClient: this.opencodeClient,
       lastSentTextByMessagePartId: new Map<string, string>(), // Initialize the map
     };
+    const mcpFailures = this.connectMcpServers(this.sessions[sessionId], params.mcpServers);
 
     // Fetch and send available slash commands
     // Add a delay to allow the server to initialize before fetching commands
@@ -394,6 +941,10 @@ export class OpenCodeAcpAgent implements Agent {
           availableCommands,
         },
       });
+      // Only reported now, as the client doesn't know the session before we return it.
+      for (const failure of await mcpFailures) {
+        await this.sendAgentMessage(sessionId, failure);
+      }
     }, 250);
 
     console.error(`[newSession] Created session ID: ${sessionId}`);
@@ -402,36 +953,74 @@ export class OpenCodeAcpAgent implements Agent {
     // Align with the expected modes from the user's example
     return {
       sessionId,
-      modes: {
-        currentModeId: "default",
-        availableModes: [
-          {
-            id: "default",
-            name: "Always Ask",
-            description: "Prompts for permission on first use of each tool",
-          },
-          {
-            id: "acceptEdits",
-            name: "Accept Edits",
-            description: "Automatically accepts file edit permissions for the session",
-          },
-          {
-            id: "bypassPermissions",
-            name: "Bypass Permissions",
-            description: "Skips all permission prompts",
-          },
-          {
-            id: "plan",
-            name: "Plan Mode",
-            description: "Claude can analyze but not modify files or execute commands",
-          },
-        ],
-      },
+      models: await this.getModelState(sessionId),
+      modes: await this.getModeState(sessionId),
     };
   }
 
-  async authenticate(_params: AuthenticateRequest): Promise<void> {
-    throw new Error("Method not implemented.");
+  /**
+   * Stores a provider's API key in OpenCode's credentials: the one in
+   * `_meta["opencode/apiKey"]`, or else the one in the provider's environment variables. OpenCode's
+   * own login happens in `opencode auth login`, so for that this only checks that OpenCode has
+   * credentials afterwards.
+   */
+  async authenticate(params: AuthenticateRequest): Promise<void> {
+    if (params.methodId !== OPENCODE_LOGIN_AUTH_METHOD.id) {
+      const provider = (await this.getAuthProviders()).find(
+        (provider) => provider.id === params.methodId,
+      );
+      if (!provider) {
+        throw new Error(`Unknown auth method: ${params.methodId}`);
+      }
+      const apiKey = params._meta?.[API_KEY_META_KEY];
+      const key =
+        typeof apiKey === "string" && apiKey
+          ? apiKey
+          : provider.env.map((name) => process.env[name]).find(Boolean);
+      if (!key) {
+        throw new Error(
+          `Pass ${provider.name}'s API key in _meta["${API_KEY_META_KEY}"]${provider.env.length > 0 ? ` or set ${provider.env.join(" or ")}` : ""}, or run \`opencode auth login\`.`,
+        );
+      }
+      const { error } = await this.opencodeClient.auth.set({
+        path: { id: provider.id },
+        body: { type: "api", key },
+      });
+      if (error) {
+        throw new Error(`Failed to store the ${provider.name} API key: ${JSON.stringify(error)}`);
+      }
+      return;
+    }
+    const { data, error } = await this.opencodeClient.config.providers();
+    if (error || !data) {
+      throw new Error(`Failed to fetch OpenCode's providers: ${JSON.stringify(error)}`);
+    }
+    if (data.providers.length === 0) {
+      throw new Error(
+        "OpenCode has no credentials for any provider. Run `opencode auth login`, or set a provider's API key (for example ANTHROPIC_API_KEY) in the agent server's env.",
+      );
+    }
+  }
+
+  /**
+   * Throws an auth-required error, which editors answer with a login flow, unless OpenCode has
+   * credentials for the session's provider. Without any, OpenCode lists no providers at all.
+   */
+  private async checkCredentials(session: Session): Promise<void> {
+    const { data, error } = await session.opencodeClient.config.providers();
+    if (error || !data) {
+      return; // let the prompt report what's wrong
+    }
+    const providerID = session.model?.providerID;
+    if (providerID && !data.providers.some((provider) => provider.id === providerID)) {
+      throw RequestError.authRequired({
+        providerID,
+        message: `OpenCode has no credentials for ${providerID}.`,
+      });
+    }
+    if (!providerID && data.providers.length === 0) {
+      throw RequestError.authRequired({ message: "OpenCode has no credentials for any provider." });
+    }
   }
 
   async prompt(params: PromptRequest): Promise<PromptResponse> {
@@ -499,11 +1088,18 @@ export class OpenCodeAcpAgent implements Agent {
       },
     );
 
+    await this.checkCredentials(session);
+
     // Send the prompt to the Opencode server
     console.error(`[prompt] Sending prompt to Opencode server for session ID: ${params.sessionId}`);
     const { data: promptData, error: promptError } = await opencodeClient.session.prompt({
-      path: { id: params.sessionId },
+      path: { id: session.opencodeSessionId },
       body: {
+        // Plan Mode runs on OpenCode's built-in read-only "plan" agent, which also tells the
+        // model that it is planning.
+        agent: session.permissionMode === "plan" ? "plan" : session.agent,
+        model: session.model,
+        tools: this.disabledTools(session),
         parts: opencodePromptParts,
       },
     });
@@ -518,32 +1114,24 @@ export class OpenCodeAcpAgent implements Agent {
       throw new Error("Unexpected empty response from Opencode prompt.");
     }
 
-    // Determine the stop reason based on the final message information received directly from the prompt call
-    let stopReason: StopReason = "end_turn";
-    if (promptData.info.error) {
-      // If there's an error in the final message info, it's either cancelled or a refusal
-      if (promptData.info.error.name === "MessageAbortedError") {
-        stopReason = "cancelled";
-      } else {
-        stopReason = "refusal";
-      }
-    }
-    // Other stop reasons like max_tokens, max_turn_requests are not directly available
-    // from AssistantMessage, so default to end_turn if no error.
-
+    const stopReason = stopReasonFor(promptData.info, promptData.parts);
     console.error(
       `[prompt] Returning stopReason: ${stopReason} for session ID: ${params.sessionId}`,
     );
-    return { stopReason };
+    return {
+      stopReason,
+      _meta: { "opencode/usage": messageUsage(promptData.info, promptData.parts) },
+    };
   }
 
   async cancel(params: CancelNotification): Promise<void> {
     if (!this.sessions[params.sessionId]) {
       throw new Error("Session not found");
     }
-    this.sessions[params.sessionId].cancelled = true;
-    await this.sessions[params.sessionId].opencodeClient.session.abort({
-      path: { id: params.sessionId },
+    const session = this.sessions[params.sessionId];
+    session.cancelled = true;
+    await session.opencodeClient.session.abort({
+      path: { id: session.opencodeSessionId },
     });
   }
 
@@ -552,15 +1140,162 @@ export class OpenCodeAcpAgent implements Agent {
       throw new Error("Session not found");
     }
 
-    switch (params.modeId) {
-      case "default":
-      case "acceptEdits":
-      case "plan":
-      case "bypassPermissions":
-        this.sessions[params.sessionId].permissionMode = params.modeId;
-        return {};
-      default:
+    const session = this.sessions[params.sessionId];
+    if (permissionModes.some((mode) => mode.id === params.modeId)) {
+      session.permissionMode = params.modeId;
+      session.agent = undefined;
+    } else if (params.modeId.startsWith(AGENT_MODE_PREFIX)) {
+      const name = params.modeId.slice(AGENT_MODE_PREFIX.length);
+      const agents = await this.getAgentModes(session);
+      if (!agents.some((mode) => mode.id === params.modeId)) {
         throw new Error("Invalid mode");
+      }
+      // Agents bring their own tools and prompt; permissions are asked for as in "default".
+      session.permissionMode = "default";
+      session.agent = name;
+    } else {
+      throw new Error("Invalid mode");
+    }
+
+    await this.client.sessionUpdate({
+      sessionId: params.sessionId,
+      update: { sessionUpdate: "current_mode_update", currentModeId: params.modeId },
+    });
+    return {};
+  }
+
+  /**
+   * Continues with the agent and model of the session's last reply. The permission level isn't
+   * stored by OpenCode, so only Plan Mode and agent modes can be restored.
+   */
+  private async restoreModeAndModel(session: Session, message: AssistantMessage): Promise<void> {
+    if (message.providerID && message.modelID) {
+      session.model = { providerID: message.providerID, modelID: message.modelID };
+    }
+
+    if (message.mode === "plan") {
+      session.permissionMode = "plan";
+      session.agent = undefined;
+      return;
+    }
+    const agentModes = await this.getAgentModes(session);
+    if (agentModes.some((mode) => mode.id === AGENT_MODE_PREFIX + message.mode)) {
+      session.permissionMode = "default";
+      session.agent = message.mode;
+    } else {
+      session.agent = undefined;
+      if (session.permissionMode === "plan") {
+        session.permissionMode = "default";
+      }
+    }
+  }
+
+  /** The permission modes followed by the session's selectable OpenCode agents. */
+  private async getModeState(sessionId: string): Promise<SessionModeState> {
+    const session = this.sessions[sessionId];
+    return {
+      currentModeId: session.agent ? AGENT_MODE_PREFIX + session.agent : session.permissionMode,
+      availableModes: [...permissionModes, ...(await this.getAgentModes(session))],
+    };
+  }
+
+  /**
+   * The primary agents configured in OpenCode (built-in and from `.opencode/agent/*.md`), as
+   * `agent:<name>` modes. "build" and "plan" are left out: the permission modes already run on
+   * "build", and Plan Mode runs on "plan".
+   */
+  private async getAgentModes(session: Session): Promise<SessionMode[]> {
+    const { data, error } = await session.opencodeClient.app.agents({
+      query: { directory: session.cwd },
+    });
+    if (error || !data) {
+      console.error("Error fetching agents:", error);
+      return [];
+    }
+    return data
+      .filter((agent) => agent.mode !== "subagent" && !["build", "plan"].includes(agent.name))
+      .map((agent) => ({
+        id: AGENT_MODE_PREFIX + agent.name,
+        name: agent.name.charAt(0).toUpperCase() + agent.name.slice(1),
+        description: agent.description ?? `Runs OpenCode's "${agent.name}" agent`,
+      }));
+  }
+
+  async setSessionModel(params: SetSessionModelRequest): Promise<SetSessionModelResponse> {
+    if (!this.sessions[params.sessionId]) {
+      throw new Error("Session not found");
+    }
+    if (!(await this.selectModel(params.sessionId, params.modelId))) {
+      throw new Error(`Unknown model: ${params.modelId}`);
+    }
+    return {};
+  }
+
+  /**
+   * The models of all configured providers, as `provider/model` IDs, and the session's current
+   * model. Picks the current model with `getModelInfo` the first time, so the editor's model
+   * picker and the prompts agree on it.
+   */
+  private async getModelState(sessionId: string): Promise<SessionModelState | undefined> {
+    const session = this.sessions[sessionId];
+    const { data, error } = await session.opencodeClient.config.providers();
+    if (error || !data) {
+      console.error("Error fetching models:", error);
+      return undefined;
+    }
+
+    if (!session.model) {
+      try {
+        session.model = await this.getModelInfo(session.opencodeClient, session.opencodeSessionId);
+      } catch (error) {
+        console.error("Error determining the current model:", error);
+        return undefined;
+      }
+    }
+
+    return {
+      currentModelId: `${session.model.providerID}/${session.model.modelID}`,
+      availableModels: data.providers.flatMap((provider) =>
+        Object.values(provider.models).map((model) => ({
+          modelId: `${provider.id}/${model.id}`,
+          name: `${provider.name}: ${model.name}`,
+        })),
+      ),
+    };
+  }
+
+  // Switches the session to a `provider/model` ID, if a configured provider offers that model.
+  private async selectModel(sessionId: string, modelId: string): Promise<boolean> {
+    const session = this.sessions[sessionId];
+    const separator = modelId.indexOf("/");
+    if (separator <= 0) {
+      return false;
+    }
+    const providerID = modelId.slice(0, separator);
+    const modelID = modelId.slice(separator + 1);
+
+    const { data, error } = await session.opencodeClient.config.providers();
+    if (error || !data) {
+      console.error("Error fetching models:", error);
+      return false;
+    }
+    const provider = data.providers.find((provider) => provider.id === providerID);
+    if (!provider?.models[modelID]) {
+      return false;
+    }
+    session.model = { providerID, modelID };
+    return true;
+  }
+
+  // The content of a file before a tool call writes it, or null if it doesn't exist yet.
+  private async readPreviousContent(sessionId: string, filePath: string): Promise<string | null> {
+    try {
+      if (this.clientCapabilities?.fs?.readTextFile) {
+        return (await this.client.readTextFile({ sessionId, path: filePath })).content;
+      }
+      return await fs.readFile(filePath, "utf8");
+    } catch {
+      return null;
     }
   }
 
@@ -573,32 +1308,74 @@ export class OpenCodeAcpAgent implements Agent {
   }
 
   async loadSession(params: LoadSessionRequest): Promise<LoadSessionResponse> {
-    // Verify the session exists
-    const { data: sessionData, error: sessionError } = await this.opencodeClient.session.get({
-      path: { id: params.sessionId },
+    // Verify the session exists, preferring the one `/resume` last attached, if it still does.
+    const resumedSessionId = await loadResumedSession(params.sessionId);
+    let { data: sessionData, error: sessionError } = await this.opencodeClient.session.get({
+      path: { id: resumedSessionId ?? params.sessionId },
     });
+    if (resumedSessionId && (sessionError || !sessionData)) {
+      ({ data: sessionData, error: sessionError } = await this.opencodeClient.session.get({
+        path: { id: params.sessionId },
+      }));
+    }
 
     if (sessionError || !sessionData) {
       const errorDetails = sessionError ? JSON.stringify(sessionError) : "undefined response";
       throw new Error(`Failed to verify opencode session: ${errorDetails}`);
     }
 
+    const previousSession = this.sessions[params.sessionId];
+    if (previousSession) {
+      await this.closeMcpConnections(previousSession);
+    }
+
     // Create and store a new Session object
     const input = new Pushable<UserMessage>();
     this.sessions[params.sessionId] = {
       input: input,
       cancelled: false,
+      cwd: params.cwd,
+      opencodeSessionId: sessionData.id,
       permissionMode: "default",
+      permissionRules: this.createPermissionRuleStore(params.cwd),
+      permissionDenials: new Map<string, string>(),
+      runningToolCalls: new Map<string, ToolPart>(),
+      toolCallWatchers: new Set<() => void>(),
+      toolCallTerminals: new Map<string, string>(),
+      previousFileContents: new Map<string, string | null>(),
+      mcpConnections: [],
       opencodeClient: this.opencodeClient,
       lastSentTextByMessagePartId: new Map<string, string>(), // Initialize the map
     };
 
-    // Fetch the conversation history
-    const { data: messagesData, error: messagesError } = await this.opencodeClient.session.messages(
-      {
-        path: { id: params.sessionId },
-      },
+    await this.replayHistory(params.sessionId);
+    const mcpFailures = await this.connectMcpServers(
+      this.sessions[params.sessionId],
+      params.mcpServers,
     );
+    for (const failure of mcpFailures) {
+      await this.sendAgentMessage(params.sessionId, failure);
+    }
+
+    // Return the LoadSessionResponse with model and mode state
+    return {
+      models: await this.getModelState(params.sessionId),
+      modes: await this.getModeState(params.sessionId),
+    };
+  }
+
+  /**
+   * Replays the conversation history of the OpenCode session attached to `sessionId` to the
+   * client, as user and agent message chunks plus tool calls.
+   */
+  private async replayHistory(sessionId: string): Promise<void> {
+    const session = this.sessions[sessionId];
+
+    // Fetch the conversation history
+    const { data: messagesData, error: messagesError } =
+      await session.opencodeClient.session.messages({
+        path: { id: session.opencodeSessionId },
+      });
 
     if (messagesError || !messagesData) {
       const errorDetails = messagesError ? JSON.stringify(messagesError) : "undefined response";
@@ -606,130 +1383,179 @@ export class OpenCodeAcpAgent implements Agent {
     }
 
     // Replay the conversation history
+    let lastAssistantMessage: AssistantMessage | undefined;
     for (const message of messagesData) {
-      // Handle user messages
+      const notifications: SessionNotification[] = [];
       if (message.info.role === "user") {
         for (const part of message.parts) {
-          if (part.type === "text") {
-            await this.client.sessionUpdate({
-              sessionId: params.sessionId,
-              update: {
-                sessionUpdate: "user_message_chunk",
-                content: { type: "text", text: part.text },
-              },
-            });
-          }
-          // Note: Other part types for user messages could be handled here if needed
+          notifications.push(...toAcpUserNotifications(part, sessionId));
         }
-      }
-      // Handle assistant messages
-      else if (message.info.role === "assistant") {
+      } else if (message.info.role === "assistant") {
+        lastAssistantMessage = message.info;
         for (const part of message.parts) {
-          const notifications = toAcpNotifications(
-            message.info as AssistantMessage,
-            part,
-            params.sessionId,
-          );
-          for (const notification of notifications) {
-            await this.client.sessionUpdate(notification);
-          }
+          notifications.push(...toAcpReplayNotifications(part, sessionId));
         }
+        if (message.info.error) {
+          notifications.push(toAcpErrorNotification(message.info, sessionId));
+        }
+      }
+      for (const notification of notifications) {
+        await this.client.sessionUpdate(notification);
       }
     }
 
-    // Return the LoadSessionResponse with mode state
+    if (lastAssistantMessage) {
+      await this.restoreModeAndModel(session, lastAssistantMessage);
+    }
+  }
+
+  /**
+   * Tools to turn off for a prompt: OpenCode's built-in tools that our MCP tools replace by going
+   * through the editor (reading unsaved buffers, showing edits for review and running commands
+   * in its terminal), and the tools of MCP servers that only other sessions are connected to.
+   */
+  private disabledTools(session: Session): { [tool: string]: boolean } | undefined {
+    if (!this.acpTools) {
+      return undefined;
+    }
+    const mcpToolNames = (session: Session) =>
+      session.mcpConnections.flatMap((connection) =>
+        connection.tools.map((tool) => proxiedToolName(connection.name, tool.name)),
+      );
+    const ownMcpTools = new Set(mcpToolNames(session));
+    const otherMcpTools = Object.values(this.sessions)
+      .flatMap(mcpToolNames)
+      .filter((name) => !ownMcpTools.has(name));
     return {
-      modes: {
-        currentModeId: "default",
-        availableModes: [
-          {
-            id: "default",
-            name: "Always Ask",
-            description: "Prompts for permission on first use of each tool",
-          },
-          {
-            id: "acceptEdits",
-            name: "Accept Edits",
-            description: "Automatically accepts file edit permissions for the session",
-          },
-          {
-            id: "bypassPermissions",
-            name: "Bypass Permissions",
-            description: "Skips all permission prompts",
-          },
-          {
-            id: "plan",
-            name: "Plan Mode",
-            description: "Claude can analyze but not modify files or execute commands",
-          },
-        ],
-      },
+      ...(this.clientCapabilities?.fs?.readTextFile ? { read: false } : {}),
+      ...(this.clientCapabilities?.fs?.writeTextFile
+        ? { write: false, edit: false, multiedit: false, patch: false }
+        : {}),
+      ...(this.clientCapabilities?.terminal ? { bash: false } : {}),
+      ...Object.fromEntries(
+        otherMcpTools.map((name) => [`${EDITOR_MCP_SERVER_NAME}_${name}`, false]),
+      ),
     };
   }
 
+  /**
+   * Connects a session to the MCP servers the editor passed in, so their tools are listed to
+   * OpenCode by `createProxyMcpServer`. Resolves with a message for each server that failed.
+   */
+  private async connectMcpServers(session: Session, servers: McpServerConfig[]): Promise<string[]> {
+    if (!this.acpTools) {
+      return servers.map(
+        (server) =>
+          `⚠️ MCP server \`${server.name}\` is unavailable: MCP servers can only be added to an OpenCode server started by the adapter.\n\n`,
+      );
+    }
+    const failures: string[] = [];
+    await Promise.all(
+      servers.map(async (server) => {
+        try {
+          session.mcpConnections.push(await connectMcpServer(server, session.cwd));
+        } catch (error) {
+          console.error(`[connectMcpServers] Failed to connect to ${server.name}:`, error);
+          failures.push(
+            `⚠️ Failed to connect to MCP server \`${server.name}\`: ${error instanceof Error ? error.message : error}\n\n`,
+          );
+        }
+      }),
+    );
+    return failures;
+  }
+
+  private async closeMcpConnections(session: Session): Promise<void> {
+    const connections = session.mcpConnections.splice(0);
+    await Promise.all(connections.map((connection) => connection.client.close()));
+  }
+
+  /** Disconnects every session from its MCP servers, once the client has gone away. */
+  async close(): Promise<void> {
+    await Promise.all(
+      Object.values(this.sessions).map((session) => this.closeMcpConnections(session)),
+    );
+  }
+
+  /**
+   * Runs a command with OpenCode's shell. Every terminal gets its own child session, because the
+   * parent session is busy with the prompt that asked for the command.
+   */
   async createTerminal(params: CreateTerminalRequest): Promise<CreateTerminalResponse> {
+    const session = this.sessions[params.sessionId];
+    if (!session) {
+      throw new Error("Session not found");
+    }
     const terminalId = `term_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    try {
-      // Construct the full command string
-      const fullCommand = params.args
-        ? `${params.command} ${params.args.join(" ")}`
-        : params.command;
-
-      const { data: shellData, error: shellError } = await this.opencodeClient.session.shell({
-        path: { id: params.sessionId },
-        body: {
-          agent: "terminal",
-          command: fullCommand,
-        },
+    const fullCommand = [params.command, ...(params.args ?? []).map(shellQuote)].join(" ");
+    const env = [
+      ...(params.env ?? []),
+      ...Object.entries(this.managedSettings?.env ?? {}).map(([name, value]) => ({ name, value })),
+    ];
+    const script = shellScript(fullCommand, path.resolve(session.cwd, params.cwd ?? "."), env);
+
+    const { data: terminalSession, error: sessionError } =
+      await session.opencodeClient.session.create({
+        query: { directory: session.cwd },
+        body: { parentID: session.opencodeSessionId, title: `Terminal: ${fullCommand}` },
       });
+    if (sessionError || !terminalSession) {
+      const errorDetails = sessionError ? JSON.stringify(sessionError) : "undefined response";
+      throw new Error(`Failed to create terminal: ${errorDetails}`);
+    }
 
-      if (shellError || !shellData || !shellData.id) {
-        const errorDetails = shellError ? JSON.stringify(shellError) : "undefined shell data";
-        throw new Error(`Failed to create terminal: ${errorDetails}`);
-      }
+    const terminal: ShellTerminal = {
+      opencodeClient: session.opencodeClient,
+      opencodeSessionId: terminalSession.id,
+      output: "",
+      outputByteLimit: params.outputByteLimit ?? null,
+      truncated: false,
+      exitStatus: null,
+      killed: false,
+      exited: Promise.resolve({ exitCode: null, signal: null }),
+    };
+    terminal.exited = this.runShell(terminal, script);
+    this.terminals[terminalId] = terminal;
 
-      // Create a handle object that matches the expected interface
-      const handle = {
-        id: terminalId,
-        currentOutput: async (): Promise<TerminalOutputResponse> => {
-          return this.terminalOutput({ sessionId: params.sessionId, terminalId });
-        },
-        kill: async (): Promise<KillTerminalResponse> => {
-          return this["terminal/kill"]({ sessionId: params.sessionId, terminalId });
-        },
-        release: async (): Promise<ReleaseTerminalResponse> => {
-          return this.releaseTerminal({ sessionId: params.sessionId, terminalId });
-        },
-        waitForExit: async (): Promise<WaitForTerminalExitResponse> => {
-          return this.waitForTerminalExit({ sessionId: params.sessionId, terminalId });
-        },
-      };
+    return { terminalId };
+  }
 
-      // Store the terminal in backgroundTerminals with the handle
-      this.backgroundTerminals[terminalId] = {
-        handle,
-        lastOutput: null,
-        status: "started",
-        shellId: shellData.id,
-        output: "",
-        exitStatus: null,
-      };
+  // Resolves once the shell command finishes, with its final output and exit status recorded.
+  private async runShell(terminal: ShellTerminal, command: string): Promise<TerminalExitStatus> {
+    const { error } = await terminal.opencodeClient.session.shell({
+      path: { id: terminal.opencodeSessionId },
+      body: { agent: "build", command: withExitStatusMarker(command) },
+    });
+    if (error) {
+      console.error(`[runShell] Shell command failed:`, error);
+    }
 
-      return { terminalId };
-    } catch (error) {
-      throw new Error(`Failed to create terminal: ${error}`);
+    // The shell's tool part holds the complete output, including the exit status marker.
+    const { data: messages } = await terminal.opencodeClient.session.messages({
+      path: { id: terminal.opencodeSessionId },
+    });
+    let exitCode: number | null = null;
+    for (const message of messages ?? []) {
+      for (const part of message.parts) {
+        if (part.type === "tool" && part.state.status === "completed") {
+          exitCode = updateTerminalOutput(terminal, part.state.output);
+        }
+      }
     }
+
+    terminal.exitStatus = exitStatusFromCode(exitCode, terminal.killed);
+    return terminal.exitStatus;
   }
 
   async terminalOutput(params: TerminalOutputRequest): Promise<TerminalOutputResponse> {
-    const terminal = this.backgroundTerminals[params.terminalId];
+    const terminal = this.terminals[params.terminalId];
     if (!terminal) {
       throw new Error(`Terminal not found: ${params.terminalId}`);
     }
     return {
       output: terminal.output,
-      truncated: false,
+      truncated: terminal.truncated,
       exitStatus: terminal.exitStatus,
     };
   }
@@ -737,36 +1563,35 @@ export class OpenCodeAcpAgent implements Agent {
   async waitForTerminalExit(
     params: WaitForTerminalExitRequest,
   ): Promise<WaitForTerminalExitResponse> {
-    const terminal = this.backgroundTerminals[params.terminalId];
+    const terminal = this.terminals[params.terminalId];
     if (!terminal) {
       throw new Error(`Terminal not found: ${params.terminalId}`);
     }
-    while (terminal.status === "started") {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    }
-    return {
-      exitCode: terminal.exitStatus?.exitCode ?? null,
-      signal: terminal.exitStatus?.signal ?? null,
-    };
+    return terminal.exited;
   }
 
   async "terminal/kill"(params: KillTerminalCommandRequest): Promise<KillTerminalResponse> {
-    const terminal = this.backgroundTerminals[params.terminalId];
+    const terminal = this.terminals[params.terminalId];
     if (!terminal) {
       throw new Error(`Terminal not found: ${params.terminalId}`);
     }
-    console.warn("SDK does not support killing terminals directly. Marking as killed.");
-    terminal.status = "killed";
+    if (!terminal.exitStatus) {
+      // Aborting the session kills the shell process with SIGTERM.
+      terminal.killed = true;
+      await terminal.opencodeClient.session.abort({ path: { id: terminal.opencodeSessionId } });
+      await terminal.exited;
+    }
     return {};
   }
 
   async releaseTerminal(params: ReleaseTerminalRequest): Promise<ReleaseTerminalResponse> {
-    const terminal = this.backgroundTerminals[params.terminalId];
+    const terminal = this.terminals[params.terminalId];
     if (!terminal) {
       throw new Error(`Terminal not found: ${params.terminalId}`);
     }
-    console.warn("SDK does not support releasing terminals directly. Deleting internal reference.");
-    delete this.backgroundTerminals[params.terminalId];
+    await this["terminal/kill"](params);
+    delete this.terminals[params.terminalId];
+    await terminal.opencodeClient.session.delete({ path: { id: terminal.opencodeSessionId } });
     return {};
   }
 
@@ -811,11 +1636,186 @@ export class OpenCodeAcpAgent implements Agent {
     throw new Error("Could not determine a model to use.");
   }
 
+  private async sendAgentMessage(sessionId: string, text: string): Promise<void> {
+    await this.client.sessionUpdate({
+      sessionId,
+      update: {
+        sessionUpdate: "agent_message_chunk",
+        content: { type: "text", text },
+      },
+    });
+  }
+
+  /** Lists the top-level OpenCode sessions for the session's working directory, newest first. */
+  private async listSessions(sessionId: string): Promise<void> {
+    const session = this.sessions[sessionId];
+    const { data, error } = await session.opencodeClient.session.list({
+      query: { directory: session.cwd },
+    });
+    if (error || !data) {
+      console.error("Error listing sessions:", error);
+      await this.sendAgentMessage(sessionId, "❌ Error: Could not list sessions.");
+      return;
+    }
+
+    const sessions = data
+      .filter((s) => s.directory === session.cwd && !s.parentID)
+      .sort((a, b) => b.time.updated - a.time.updated);
+    if (sessions.length === 0) {
+      await this.sendAgentMessage(sessionId, `No sessions found for ${session.cwd}.`);
+      return;
+    }
+
+    const messageCounts = await Promise.all(
+      sessions.map(async (s) => {
+        const { data: messages } = await session.opencodeClient.session.messages({
+          path: { id: s.id },
+        });
+        return messages?.length ?? 0;
+      }),
+    );
+
+    let text = `Sessions for ${session.cwd}:\n`;
+    sessions.forEach((s, i) => {
+      const updated = new Date(s.time.updated).toISOString().slice(0, 16).replace("T", " ");
+      const current = s.id === session.opencodeSessionId ? " (current)" : "";
+      text += `- \`${s.id}\` ${s.title}${current} — updated ${updated}, ${messageCounts[i]} messages\n`;
+    });
+    text += "\nUse `/resume <id>` to continue a session or `/delete <id>` to remove it.";
+    await this.sendAgentMessage(sessionId, text);
+  }
+
+  /**
+   * Totals the tokens and cost of the session's replies per model, including the subagent
+   * sessions it started.
+   */
+  private async showCost(sessionId: string): Promise<void> {
+    const session = this.sessions[sessionId];
+    const usageByModel = new Map<string, Usage>();
+    const addSession = async (opencodeSessionId: string): Promise<boolean> => {
+      const { data: messages, error } = await session.opencodeClient.session.messages({
+        path: { id: opencodeSessionId },
+      });
+      if (error || !messages) {
+        console.error(`Error fetching messages of ${opencodeSessionId}:`, error);
+        return false;
+      }
+      for (const message of messages) {
+        if (message.info.role === "assistant") {
+          const model = `${message.info.providerID}/${message.info.modelID}`;
+          usageByModel.set(
+            model,
+            addUsage(
+              usageByModel.get(model) ?? emptyUsage(),
+              messageUsage(message.info, message.parts),
+            ),
+          );
+        }
+      }
+      const { data: children } = await session.opencodeClient.session.children({
+        path: { id: opencodeSessionId },
+      });
+      for (const child of children ?? []) {
+        await addSession(child.id);
+      }
+      return true;
+    };
+    if (!(await addSession(session.opencodeSessionId))) {
+      await this.sendAgentMessage(sessionId, "❌ Error: Could not load the session's messages.");
+      return;
+    }
+
+    const total = [...usageByModel.values()].reduce(addUsage, emptyUsage());
+    let text = `Session cost: ${formatUsage(total)}\n`;
+    for (const [model, usage] of usageByModel) {
+      text += `- \`${model}\`: ${formatUsage(usage)}\n`;
+    }
+    await this.sendAgentMessage(sessionId, text);
+  }
+
+  /**
+   * Attaches an existing OpenCode session to the ACP session and replays its history, so the
+   * conversation continues where that session left off. Loading the ACP session later reopens
+   * the resumed session.
+   */
+  private async resumeSession(sessionId: string, opencodeSessionId: string): Promise<void> {
+    const session = this.sessions[sessionId];
+    if (opencodeSessionId === session.opencodeSessionId) {
+      await this.sendAgentMessage(sessionId, `Already in session \`${opencodeSessionId}\`.`);
+      return;
+    }
+    if (this.acpSessionIdFor(opencodeSessionId)) {
+      await this.sendAgentMessage(
+        sessionId,
+        `❌ Error: Session \`${opencodeSessionId}\` is already open in another conversation.`,
+      );
+      return;
+    }
+
+    const { data, error } = await session.opencodeClient.session.get({
+      path: { id: opencodeSessionId },
+    });
+    if (error || !data) {
+      await this.sendAgentMessage(
+        sessionId,
+        `❌ Error: Session \`${opencodeSessionId}\` not found. Use \`/sessions\` to list sessions.`,
+      );
+      return;
+    }
+
+    session.opencodeSessionId = data.id;
+    await saveResumedSession(sessionId, data.id);
+    session.lastSentTextByMessagePartId.clear();
+    session.permissionDenials.clear();
+    session.runningToolCalls.clear();
+    session.toolCallTerminals.clear();
+    session.previousFileContents.clear();
+
+    await this.sendAgentMessage(sessionId, `Resuming session \`${data.id}\`: ${data.title}\n\n`);
+    await this.replayHistory(sessionId);
+    const { currentModeId } = await this.getModeState(sessionId);
+    await this.client.sessionUpdate({
+      sessionId,
+      update: { sessionUpdate: "current_mode_update", currentModeId },
+    });
+  }
+
+  private async deleteSession(sessionId: string, opencodeSessionId: string): Promise<void> {
+    const session = this.sessions[sessionId];
+    if (!opencodeSessionId) {
+      await this.sendAgentMessage(
+        sessionId,
+        "Usage: `/delete <id>`. Use `/sessions` to list sessions.",
+      );
+      return;
+    }
+    if (this.acpSessionIdFor(opencodeSessionId)) {
+      await this.sendAgentMessage(
+        sessionId,
+        `❌ Error: Session \`${opencodeSessionId}\` is open in a conversation and can't be deleted.`,
+      );
+      return;
+    }
+
+    const { data, error } = await session.opencodeClient.session.delete({
+      path: { id: opencodeSessionId },
+    });
+    if (error || !data) {
+      console.error("Error deleting session:", error);
+      await this.sendAgentMessage(
+        sessionId,
+        `❌ Error: Could not delete session \`${opencodeSessionId}\`.`,
+      );
+      return;
+    }
+    await this.sendAgentMessage(sessionId, `✅ Deleted session \`${opencodeSessionId}\`.`);
+  }
+
   async handleCommand(sessionId: string, command: string, args: string): Promise<boolean> {
     const session = this.sessions[sessionId];
     if (!session) return false;
 
-    const { opencodeClient } = session;
+    const { opencodeClient, opencodeSessionId } = session;
 
     switch (command) {
       case "help": {
@@ -823,11 +1823,16 @@ export class OpenCodeAcpAgent implements Agent {
 Available slash commands:
 - /init: Analyze project structure and create/update AGENTS.md.
 - /models: List all available models from configured providers.
+- /model <provider/model>: Switch the model used by this session.
 - /compact or /summarize: Compact the current session.
 - /undo: Undo the last message and any associated file changes.
 - /redo: Redo a previously undone message and restore file changes.
 - /share: Share the current session.
 - /unshare: Unshare the current session.
+- /sessions: List the OpenCode sessions for this project.
+- /resume <id> or /continue <id>: Continue an existing session in this conversation.
+- /delete <id>: Delete a session.
+- /cost: Show the tokens and cost of this session.
 
 For more detailed information on all commands, including client-side commands and keybinds, please run 'opencode' in your terminal and use the '/help' command within the OpenCode TUI.
 `;
@@ -850,9 +1855,14 @@ For more detailed information on all commands, including client-side commands an
         let modelList = "Available models:\n";
         for (const provider of data.providers) {
           for (const modelId in provider.models) {
-            modelList += `- ${provider.id}/${modelId}\n`;
+            const current =
+              session.model?.providerID === provider.id && session.model.modelID === modelId
+                ? " (current)"
+                : "";
+            modelList += `- ${provider.id}/${modelId}${current}\n`;
           }
         }
+        modelList += "\nUse `/model <provider/model>` to switch models.";
         await this.client.sessionUpdate({
           sessionId,
           update: {
@@ -863,12 +1873,34 @@ For more detailed information on all commands, including client-side commands an
         return true;
       }
 
+      case "model": {
+        const modelId = args.trim();
+        if (!modelId) {
+          const current = session.model
+            ? `\`${session.model.providerID}/${session.model.modelID}\``
+            : "OpenCode's default model";
+          await this.sendAgentMessage(
+            sessionId,
+            `Using ${current}. Use \`/model <provider/model>\` to switch models.`,
+          );
+        } else if (await this.selectModel(sessionId, modelId)) {
+          await this.sendAgentMessage(sessionId, `✅ Switched to \`${modelId}\`.`);
+        } else {
+          await this.sendAgentMessage(
+            sessionId,
+            `❌ Error: Unknown model \`${modelId}\`. Use \`/models\` to list available models.`,
+          );
+        }
+        return true;
+      }
+
       case "compact":
       case "summarize": {
         try {
-          const { providerID, modelID } = await this.getModelInfo(opencodeClient, sessionId);
+          const { providerID, modelID } =
+            session.model ?? (await this.getModelInfo(opencodeClient, opencodeSessionId));
           await opencodeClient.session.summarize({
-            path: { id: sessionId },
+            path: { id: opencodeSessionId },
             body: {
               providerID,
               modelID,
@@ -904,13 +1936,14 @@ For more detailed information on all commands, including client-side commands an
         });
 
         try {
-          const { providerID, modelID } = await this.getModelInfo(opencodeClient, sessionId);
+          const { providerID, modelID } =
+            session.model ?? (await this.getModelInfo(opencodeClient, opencodeSessionId));
 
           // Generate a temporary, client-side message ID for this operation
           const tempMessageID = `temp_init_${Date.now()}`;
 
           const response = await opencodeClient.session.init({
-            path: { id: sessionId },
+            path: { id: opencodeSessionId },
             body: {
               messageID: tempMessageID,
               providerID,
@@ -958,6 +1991,27 @@ For more detailed information on all commands, including client-side commands an
         return true;
       }
 
+      case "sessions":
+        await this.listSessions(sessionId);
+        return true;
+
+      case "cost":
+        await this.showCost(sessionId);
+        return true;
+
+      case "resume":
+      case "continue":
+        if (!args.trim()) {
+          await this.listSessions(sessionId);
+          return true;
+        }
+        await this.resumeSession(sessionId, args.trim());
+        return true;
+
+      case "delete":
+        await this.deleteSession(sessionId, args.trim());
+        return true;
+
       case "new":
       case "clear":
         // This is a client-side command in the TUI. The agent cannot create a new session for the client.
@@ -975,7 +2029,7 @@ For more detailed information on all commands, including client-side commands an
 
       case "redo": {
         try {
-          await opencodeClient.session.unrevert({ path: { id: sessionId } });
+          await opencodeClient.session.unrevert({ path: { id: opencodeSessionId } });
           await this.client.sessionUpdate({
             sessionId,
             update: {
@@ -1000,14 +2054,14 @@ For more detailed information on all commands, including client-side commands an
       }
 
       case "share": {
-        await opencodeClient.session.share({ path: { id: sessionId } });
+        await opencodeClient.session.share({ path: { id: opencodeSessionId } });
         return true;
       }
 
       case "undo": {
         try {
           const { data: messages, error: messagesError } = await opencodeClient.session.messages({
-            path: { id: sessionId },
+            path: { id: opencodeSessionId },
           });
           if (messagesError || !messages || messages.length === 0) {
             const errorDetails = messagesError
@@ -1022,7 +2076,7 @@ For more detailed information on all commands, including client-side commands an
           }
 
           await opencodeClient.session.revert({
-            path: { id: sessionId },
+            path: { id: opencodeSessionId },
             body: { messageID: lastMessage.info.id },
           });
 
@@ -1050,14 +2104,14 @@ For more detailed information on all commands, including client-side commands an
       }
 
       case "unshare": {
-        await opencodeClient.session.unshare({ path: { id: sessionId } });
+        await opencodeClient.session.unshare({ path: { id: opencodeSessionId } });
         return true;
       }
 
       default:
         // Assume it's a custom command
         await opencodeClient.session.command({
-          path: { id: sessionId },
+          path: { id: opencodeSessionId },
           body: {
             command: command,
             arguments: args,
@@ -1073,6 +2127,7 @@ export function toAcpNotifications(
   messageInfo: AssistantMessage,
   messagePart: Part,
   sessionId: string,
+  previousContent: string | null = null, // the file before the tool call changed it, when known
 ): SessionNotification[] {
   const output: SessionNotification[] = [];
 
@@ -1088,70 +2143,53 @@ export function toAcpNotifications(
     case "tool": {
       // Tool parts can represent calls, updates, completion, or errors
       const { state, callID, tool } = messagePart;
-      if (state.status === "pending") {
+      if (TODO_TOOLS.includes(tool)) {
+        // The todo tools are shown as the session's plan instead of as tool calls.
+        const todos =
+          state.status === "completed"
+            ? (state.metadata?.todos ?? state.input.todos)
+            : state.status === "running"
+              ? (state.input as { todos?: unknown } | undefined)?.todos
+              : undefined;
+        if (Array.isArray(todos)) {
+          update = { sessionUpdate: "plan", entries: planEntries({ todos }) };
+        }
+      } else if (state.status === "pending") {
+        const info = toolInfoFromToolPart(tool, {});
         update = {
           sessionUpdate: "tool_call",
           toolCallId: callID,
-          title: tool,
+          title: info.title,
           status: ToolCallStatus.Pending,
-          kind: mapToolKind(tool),
-          content: (messagePart as any).content || [],
-          locations: (messagePart as any).locations || [],
+          kind: info.kind,
+          content: info.content,
+          locations: info.locations ?? [],
         };
       } else if (state.status === "running") {
+        const input = (state.input ?? {}) as { [key: string]: unknown };
+        const info = toolInfoFromToolPart(tool, input, previousContent);
         update = {
           sessionUpdate: "tool_call_update",
           toolCallId: callID,
-          title: state.title || tool,
+          title: info.title,
+          kind: info.kind,
           status: ToolCallStatus.InProgress,
-          locations: (messagePart as any).locations || [],
-          content: [
-            {
-              type: "content",
-              content: { type: "text", text: `Tool input: ${JSON.stringify(state.input || {})}` },
-            },
-          ],
+          content: info.content,
+          locations: info.locations ?? [],
+          rawInput: input,
         };
-      } else if (state.status === "completed") {
-        const toolKind = mapToolKind(tool);
-        if (
-          toolKind === ToolKind.Edit &&
-          state.output &&
-          typeof state.output === "object" &&
-          "path" in state.output &&
-          "newText" in state.output
-        ) {
-          update = {
-            sessionUpdate: "tool_call_update",
-            toolCallId: callID,
-            status: ToolCallStatus.Completed,
-            content: [
-              {
-                type: "diff",
-                path: (state.output as any).path,
-                oldText: (state.output as any).oldText ?? null,
-                newText: (state.output as any).newText,
-              },
-            ],
-          };
-        } else {
-          update = {
-            sessionUpdate: "tool_call_update",
-            toolCallId: callID,
-            status: ToolCallStatus.Completed,
-            content: [
-              { type: "content", content: { type: "text", text: JSON.stringify(state.output) } },
-            ],
-          };
-        }
-      } else if (state.status === "error") {
+      } else {
+        const { content, locations } = toolUpdateFromToolPart(tool, state, previousContent);
         update = {
           sessionUpdate: "tool_call_update",
           toolCallId: callID,
-          status: ToolCallStatus.Failed,
-          content: [
-            { type: "content", content: { type: "text", text: JSON.stringify(state.error) } },
-          ],
+          status: state.status === "completed" ? ToolCallStatus.Completed : ToolCallStatus.Failed,
+          content: content ?? [],
+          ...(locations ? { locations } : {}),
+          rawOutput:
+            state.status === "completed"
+              ? { output: state.output, metadata: state.metadata }
+              : { error: state.error },
         };
       }
       break;
@@ -1168,35 +2206,14 @@ export function toAcpNotifications(
             },
       };
       break;
-    case "reasoning": {
-      // Create a plan entry for the reasoning part
-      const planEntry: PlanEntry = {
-        content: messagePart.text,
-        priority: PlanEntryPriority.Medium,
-        status: PlanEntryStatus.Pending,
-      };
-
+    case "reasoning":
       update = {
-        sessionUpdate: "plan",
-        entries: [planEntry],
+        sessionUpdate: "agent_thought_chunk",
+        content: { type: "text", text: messagePart.text },
       };
       break;
-    }
+    // The files a step changed, which its edit, write and patch tool calls already show as diffs.
     case "patch":
-      update = {
-        sessionUpdate: "tool_call", // Or tool_call_update if it's an update to an existing one
-        toolCallId: `patch-${messagePart.hash}`, // Generate a unique ID
-        title: `Applying patch to ${messagePart.files.join(", ")}`,
-        status: ToolCallStatus.Completed, // Patch is usually completed upon receipt
-        kind: ToolKind.Edit,
-        content: [
-          {
-            type: "content",
-            content: { type: "text", text: `Patch applied with hash: ${messagePart.hash}` },
-          },
-        ],
-      };
-      break;
     case "snapshot":
     case "agent":
     case "step-start":
@@ -1217,49 +2234,398 @@ export function toAcpNotifications(
 
   // Handle message-level errors if present
   if (messageInfo && messageInfo.error) {
-    const error = messageInfo.error as any;
-    output.push({
-      sessionId,
-      update: {
-        sessionUpdate: "agent_message_chunk",
-        content: {
-          type: "text",
-          text: `Error from OpenCode: ${error.name} - ${error.message || JSON.stringify(error.data)}`,
-        },
-      },
-    });
+    output.push(toAcpErrorNotification(messageInfo, sessionId));
   }
 
   return output;
 }
 
+function toAcpErrorNotification(
+  messageInfo: AssistantMessage,
+  sessionId: string,
+): SessionNotification {
+  const error = messageInfo.error as any;
+  return {
+    sessionId,
+    update: {
+      sessionUpdate: "agent_message_chunk",
+      content: {
+        type: "text",
+        text: `Error from OpenCode: ${error.name} - ${error.message || JSON.stringify(error.data)}`,
+      },
+    },
+  };
+}
+
+/**
+ * Converts a part of a stored user message for history replay: text plus the image, audio and
+ * file attachments sent with the prompt. Synthetic text parts (file contents OpenCode inlined
+ * for the model) are skipped.
+ */
+export function toAcpUserNotifications(part: Part, sessionId: string): SessionNotification[] {
+  let content: ContentBlock | null = null;
+  if (part.type === "text" && !part.synthetic) {
+    content = { type: "text", text: part.text };
+  } else if (part.type === "file") {
+    const dataUrl = part.url.match(/^data:[^;,]*;base64,(.*)$/);
+    if (part.mime.startsWith("image/")) {
+      content = dataUrl
+        ? { type: "image", mimeType: part.mime, data: dataUrl[1] }
+        : { type: "image", mimeType: part.mime, data: "", uri: part.url };
+    } else if (part.mime.startsWith("audio/") && dataUrl) {
+      content = { type: "audio", mimeType: part.mime, data: dataUrl[1] };
+    } else {
+      content = {
+        type: "resource_link",
+        uri: part.url,
+        name: part.filename || part.url,
+        mimeType: part.mime,
+      };
+    }
+  }
+  return content ? [{ sessionId, update: { sessionUpdate: "user_message_chunk", content } }] : [];
+}
+
+/**
+ * Converts a part of a stored assistant message for history replay. Unlike live updates, each
+ * tool call is announced with `tool_call` before its final state.
+ */
+export function toAcpReplayNotifications(part: Part, sessionId: string): SessionNotification[] {
+  const notifications = toAcpNotifications({} as AssistantMessage, part, sessionId);
+  if (part.type !== "tool" || part.state.status === "pending" || TODO_TOOLS.includes(part.tool)) {
+    return notifications;
+  }
+
+  const { state } = part;
+  const info = toolInfoFromToolPart(part.tool, state.input ?? {});
+  return [
+    {
+      sessionId,
+      update: {
+        sessionUpdate: "tool_call",
+        toolCallId: part.callID,
+        title: info.title,
+        status: ToolCallStatus.Pending,
+        kind: info.kind,
+        content: info.content,
+        locations: info.locations ?? [],
+        rawInput: state.input as { [key: string]: unknown },
+      },
+    },
+    ...notifications,
+  ];
+}
+
 function mapToolKind(toolName: string): ToolKind {
   if (toolName.startsWith("read")) return ToolKind.Read;
   if (
     toolName.startsWith("write") ||
     toolName.startsWith("edit") ||
     toolName.startsWith("apply") ||
-    toolName.startsWith("insert")
+    toolName.startsWith("insert") ||
+    toolName === "patch"
   )
     return ToolKind.Edit;
-  if (toolName.startsWith("execute")) return ToolKind.Execute;
-  if (toolName.startsWith("search") || toolName.startsWith("list")) return ToolKind.Search;
-  if (toolName.startsWith("browser")) return ToolKind.Fetch;
+  if (toolName.startsWith("execute") || toolName === "bash") return ToolKind.Execute;
+  if (
+    toolName.startsWith("search") ||
+    toolName.startsWith("list") ||
+    toolName === "grep" ||
+    toolName === "glob"
+  )
+    return ToolKind.Search;
+  if (toolName.startsWith("browser") || toolName === "webfetch") return ToolKind.Fetch;
   if (
     toolName.startsWith("update") ||
     toolName.startsWith("ask") ||
-    toolName.startsWith("new_task")
+    toolName.startsWith("new_task") ||
+    toolName.startsWith("todo")
   )
     return ToolKind.Think;
   if (toolName.startsWith("switch")) return ToolKind.SwitchMode;
   return ToolKind.Other;
 }
 
-export function runAcp(baseUrl: string) {
+const EVENT_STREAM_MAX_RECONNECT_ATTEMPTS = 8;
+const EVENT_STREAM_RETRY_DELAY_MS = 500;
+
+const AGENT_MODE_PREFIX = "agent:";
+
+const TODO_TOOLS = ["todowrite", "todoread"];
+
+// OpenCode's own login also covers OAuth, such as Claude Pro/Max. Editors that support terminal
+// logins can run it for the user.
+const OPENCODE_LOGIN_AUTH_METHOD: AuthMethod = {
+  id: "opencode-login",
+  name: "Log in with OpenCode",
+  description: "Run `opencode auth login` in a terminal to add a provider's credentials",
+  _meta: {
+    "terminal-auth": { command: "opencode", args: ["auth", "login"], label: "OpenCode Login" },
+  },
+};
+
+// Where editors pass the API key to store when logging in to a provider.
+const API_KEY_META_KEY = "opencode/apiKey";
+
+const FILE_CHANGING_TOOLS = [
+  "write",
+  "acp_write",
+  "edit",
+  "multiedit",
+  "acp_edit",
+  "acp_multi-edit",
+];
+
+const permissionModes: SessionMode[] = [
+  {
+    id: "default",
+    name: "Always Ask",
+    description: "Prompts for permission on first use of each tool",
+  },
+  {
+    id: "acceptEdits",
+    name: "Accept Edits",
+    description: "Automatically accepts file edit permissions for the session",
+  },
+  {
+    id: "bypassPermissions",
+    name: "Bypass Permissions",
+    description: "Skips all permission prompts",
+  },
+  {
+    id: "plan",
+    name: "Plan Mode",
+    description: "Can read and search, but not modify files or execute commands",
+  },
+];
+
+function shellQuote(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Runs `command` in `cwd` with `env` set, in a subshell so a failed `cd` skips the command. The
+ * command itself isn't quoted, so it can be a shell one-liner. Managed settings come last in
+ * `env` and win over variables from the request.
+ */
+function shellScript(command: string, cwd: string, env: { name: string; value: string }[]): string {
+  const lines = [`cd ${shellQuote(cwd)} || exit`];
+  for (const { name, value } of env) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid environment variable name: ${name}`);
+    }
+    lines.push(`export ${name}=${shellQuote(value)}`);
+  }
+  lines.push(command);
+  return `(\n${lines.join("\n")}\n)`;
+}
+
+const EXIT_STATUS_MARKER = "__ACP_EXIT_STATUS__";
+
+// OpenCode's shell doesn't report exit codes, so the command prints its own.
+function withExitStatusMarker(command: string): string {
+  return `${command}\nprintf '\\n${EXIT_STATUS_MARKER}%s\\n' "$?"`;
+}
+
+function parseExitStatusMarker(output: string): { output: string; exitCode: number | null } {
+  const match = output.match(new RegExp(`\\n?${EXIT_STATUS_MARKER}(\\d+)\\n?$`));
+  if (!match) {
+    return { output, exitCode: null };
+  }
+  return { output: output.slice(0, match.index), exitCode: Number(match[1]) };
+}
+
+// Keeps the tail of the shell's output within the terminal's byte limit. Returns the exit code
+// once the output ends with it.
+function updateTerminalOutput(terminal: ShellTerminal, shellOutput: string): number | null {
+  const { output, exitCode } = parseExitStatusMarker(shellOutput);
+  const bytes = Buffer.from(output, "utf8");
+  if (terminal.outputByteLimit === null || bytes.length <= terminal.outputByteLimit) {
+    terminal.output = output;
+    terminal.truncated = false;
+    return exitCode;
+  }
+  let start = bytes.length - terminal.outputByteLimit;
+  // Don't start in the middle of a multi-byte character.
+  while (start < bytes.length && (bytes[start] & 0xc0) === 0x80) {
+    start++;
+  }
+  terminal.output = bytes.subarray(start).toString("utf8");
+  terminal.truncated = true;
+  return exitCode;
+}
+
+// Shells report a command killed by signal N as exit code 128 + N.
+function exitStatusFromCode(exitCode: number | null, killed: boolean): TerminalExitStatus {
+  if (exitCode === null) {
+    return { exitCode: null, signal: killed ? "SIGTERM" : null };
+  }
+  if (exitCode > 128) {
+    const signal = Object.entries(osConstants.signals).find(
+      ([, number]) => number === exitCode - 128,
+    );
+    if (signal) {
+      return { exitCode: null, signal: signal[0] };
+    }
+  }
+  return { exitCode, signal: null };
+}
+
+function emptyUsage(): Usage {
+  return { cost: 0, tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } } };
+}
+
+function addUsage(total: Usage, usage: Usage): Usage {
+  return {
+    cost: total.cost + usage.cost,
+    tokens: {
+      input: total.tokens.input + usage.tokens.input,
+      output: total.tokens.output + usage.tokens.output,
+      reasoning: total.tokens.reasoning + usage.tokens.reasoning,
+      cache: {
+        read: total.tokens.cache.read + usage.tokens.cache.read,
+        write: total.tokens.cache.write + usage.tokens.cache.write,
+      },
+    },
+  };
+}
+
+// A message's own `tokens` only count its last step, so add up its step-finish parts instead.
+function messageUsage(message: AssistantMessage, parts: Part[]): Usage {
+  const steps = parts.filter((part): part is StepFinishPart => part.type === "step-finish");
+  if (steps.length === 0) {
+    return { cost: message.cost ?? 0, tokens: message.tokens ?? emptyUsage().tokens };
+  }
+  return steps.map(({ cost, tokens }) => ({ cost, tokens })).reduce(addUsage, emptyUsage());
+}
+
+function formatUsage({ cost, tokens }: Usage): string {
+  const count = (n: number) => n.toLocaleString("en-US");
+  return (
+    `$${cost.toFixed(4)} (${count(tokens.input)} input, ${count(tokens.output)} output, ` +
+    `${count(tokens.reasoning)} reasoning, ${count(tokens.cache.read)} cache read, ` +
+    `${count(tokens.cache.write)} cache write tokens)`
+  );
+}
+
+// Provider error messages for prompts that no longer fit in the model's context window.
+const CONTEXT_OVERFLOW_PATTERN =
+  /context[ _-]?(length|window|limit)|maximum context|prompt is too long|too many tokens/i;
+
+// Errors of tool calls that OpenCode wasn't allowed to run, which end the turn early.
+const PERMISSION_REJECTED_PATTERN =
+  /rejected permission|permission for tool '[^']*' denied|is blocked by/i;
+
+/**
+ * The ACP stop reason for OpenCode's reply to a prompt, from the message's error or the finish
+ * reason of its last step. Errors that aren't a way for a turn to end, such as provider, API and
+ * context overflow errors, are thrown as JSON-RPC errors with OpenCode's error in `data`.
+ */
+function stopReasonFor(message: AssistantMessage, parts: Part[]): StopReason {
+  // Newer servers also report APIError and finish reasons that the SDK doesn't type yet.
+  const error = message.error as
+    | { name: string; data?: { message?: string; [key: string]: unknown } }
+    | undefined;
+  if (error) {
+    switch (error.name) {
+      case "MessageAbortedError":
+        return "cancelled";
+      case "MessageOutputLengthError":
+        return "max_tokens";
+      case "ProviderAuthError":
+        throw RequestError.authRequired(error.data);
+      default:
+        break;
+    }
+    const details = error.data?.message ?? error.name;
+    if (error.name === "ContextOverflowError" || CONTEXT_OVERFLOW_PATTERN.test(details)) {
+      throw new RequestError(
+        -32603,
+        `The conversation is too long for the model's context window. Run /compact to summarize it. (${details})`,
+        { name: error.name, ...error.data },
+      );
+    }
+    throw new RequestError(-32603, `OpenCode error: ${details}`, {
+      name: error.name,
+      ...error.data,
+    });
+  }
+
+  const lastStep = [...parts].reverse().find((part) => part.type === "step-finish") as
+    | (Part & { reason?: string })
+    | undefined;
+  switch (lastStep?.reason) {
+    case "length":
+      return "max_tokens";
+    case "content-filter":
+      return "refusal";
+    case "tool-calls": {
+      // The last step's tool calls ended the turn instead of the agent running out of steps
+      // when one of them was denied or aborted.
+      const stepStart = parts.map((part) => part.type).lastIndexOf("step-start");
+      const toolErrors = parts
+        .slice(stepStart + 1)
+        .flatMap((part) =>
+          part.type === "tool" && part.state.status === "error" ? [part.state.error] : [],
+        );
+      if (toolErrors.some((error) => /aborted/i.test(error))) {
+        return "cancelled";
+      }
+      if (toolErrors.some((error) => PERMISSION_REJECTED_PATTERN.test(error))) {
+        return "end_turn";
+      }
+      // The model still wanted to call tools when the agent ran out of steps.
+      return "max_turn_requests";
+    }
+    default:
+      return "end_turn";
+  }
+}
+
+// The subagent's tool calls as a list, for the content of its task's tool call.
+function subagentActivity(subagent: Subagent): ToolCallContent[] {
+  if (subagent.toolCalls.size === 0) {
+    return [];
+  }
+  const icons = { pending: "⏳", running: "⏳", completed: "✅", error: "❌" };
+  const lines = [...subagent.toolCalls.values()].map((part) => {
+    const input = part.state.status === "pending" ? {} : (part.state.input ?? {});
+    return `- ${icons[part.state.status]} ${toolInfoFromToolPart(part.tool, input).title}`;
+  });
+  return [{ type: "content", content: { type: "text", text: lines.join("\n") } }];
+}
+
+// Tool kinds that can run in Plan Mode because they don't modify the workspace.
+function isReadOnlyToolKind(kind: string): boolean {
+  const readOnlyKinds: string[] = [ToolKind.Read, ToolKind.Search, ToolKind.Fetch, ToolKind.Think];
+  return readOnlyKinds.includes(kind);
+}
+
+export function runAcp(
+  baseUrl: string,
+  managedSettings: ManagedSettings | null = null,
+  headers: Record<string, string> = {},
+  acpTools = false,
+  usageNotifications = false,
+): OpenCodeAcpAgent {
   const input = nodeToWebWritable(process.stdout);
   const output = nodeToWebReadable(process.stdin);
 
   const stream = ndJsonStream(input, output);
 
-  new AgentSideConnection((client) => new OpenCodeAcpAgent(client, baseUrl), stream);
+  let agent!: OpenCodeAcpAgent;
+  new AgentSideConnection(
+    (client) =>
+      (agent = new OpenCodeAcpAgent(
+        client,
+        baseUrl,
+        managedSettings,
+        headers,
+        acpTools,
+        usageNotifications,
+      )),
+    stream,
+  );
+  process.stdin.once("end", () => agent.close());
+  return agent;
 }
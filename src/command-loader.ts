@@ -38,17 +38,24 @@ export async function loadAvailableCommands(cwd: string): Promise<AvailableComma
     { name: "help", description: "Show the help dialog.", input: null },
     { name: "init", description: "Create or update AGENTS.md file.", input: null },
     { name: "models", description: "List available models.", input: null },
+    { name: "model", description: "Switch the model.", input: { hint: "<provider/model>" } },
     { name: "redo", description: "Redo a previously undone message.", input: null },
     { name: "undo", description: "Undo last message in the conversation.", input: null },
     { name: "share", description: "Share current session.", input: null },
     { name: "unshare", description: "Unshare current session.", input: null },
+    { name: "sessions", description: "List sessions for this project.", input: null },
+    {
+      name: "resume",
+      description: "Continue an existing session. Alias: /continue",
+      input: { hint: "<session id>" },
+    },
+    { name: "continue", description: "Alias for /resume", input: { hint: "<session id>" } },
+    { name: "delete", description: "Delete a session.", input: { hint: "<session id>" } },
+    { name: "cost", description: "Show the tokens and cost of this session.", input: null },
 
     // not implemented or disabled commands
     // { name: "new", description: "Start a new session. Alias: /clear", input: null },
     // { name: "clear", description: "Alias for /new", input: null },
-    // { name: "sessions", description: "List and switch between sessions. Aliases: /resume, /continue (not implemented)", input: null },
-    // { name: "resume", description: "Alias for /sessions (not implemented)", input: null },
-    // { name: "continue", description: "Alias for /sessions (not implemented)", input: null },
     // { name: "themes", description: "List available themes. (not implemented)", input: null },
     // { name: "details", description: "Toggle tool execution details. (not implemented)", input: null },
     // { name: "editor", description: "Open external editor for composing messages. (not implemented)", input: null },
@@ -1,20 +1,58 @@
 #!/usr/bin/env node
 
-import { createOpencodeServer } from "@opencode-ai/sdk/server";
-import { runAcp } from "./acp-agent.js";
+import { OpenCodeAcpAgent, runAcp } from "./acp-agent.js";
+import { opencodeMcpConfig, startMcpServer } from "./mcp-server.js";
+import {
+  checkServerHealth,
+  checkServerPermissions,
+  parseCliOptions,
+  startOpencodeServer,
+  USAGE,
+} from "./opencode-server.js";
+import { applyEnvironmentSettings, loadManagedSettings } from "./utils.js";
 
 process.on("unhandledRejection", (reason, promise) => {
   console.error("Unhandled Rejection at:", promise, "reason:", reason);
 });
 
 async function main() {
-  const server = await createOpencodeServer({
-    hostname: "127.0.0.1",
-    port: 0,
-  });
+  if (process.argv.includes("--help") || process.argv.includes("-h")) {
+    console.error(USAGE);
+    return;
+  }
+  const options = parseCliOptions();
 
-  console.error(`Opencode server running at ${server.url}`);
-  runAcp(server.url);
+  // Apply managed environment variables before spawning the server so it inherits them.
+  const managedSettings = loadManagedSettings();
+  if (managedSettings) {
+    applyEnvironmentSettings(managedSettings);
+  }
+
+  let agent: OpenCodeAcpAgent | undefined = undefined;
+  let url = options.url;
+  if (url) {
+    // The editor's file and terminal tools can only be registered with a server we start.
+    console.error(`Attaching to Opencode server at ${url}`);
+  } else {
+    const mcpServer = await startMcpServer(() => agent);
+    const server = await startOpencodeServer({
+      ...options,
+      config: { mcp: opencodeMcpConfig(mcpServer) },
+    });
+    process.on("exit", () => server.close());
+    url = server.url;
+    console.error(`Opencode server running at ${url}`);
+  }
+
+  const serverConfig = await checkServerHealth(url, options.headers);
+  if (options.url) {
+    // The server we spawn is configured to ask; one we attach to has to be.
+    checkServerPermissions(url, serverConfig);
+  }
+  agent = runAcp(url, managedSettings, options.headers, !options.url, options.usageNotifications);
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
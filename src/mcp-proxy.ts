@@ -0,0 +1,126 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpServer as McpServerConfig } from "@zed-industries/agent-client-protocol";
+import { OpenCodeAcpAgent } from "./acp-agent.js";
+
+// OpenCode lists the tools of the editor's MCP servers under this server name.
+export const EDITOR_MCP_SERVER_NAME = "editor";
+
+/** An MCP server from `NewSessionRequest.mcpServers` that a session is connected to. */
+export type McpConnection = {
+  name: string;
+  client: Client;
+  tools: Tool[];
+};
+
+/** Connects to an MCP server the editor passed in, running stdio servers in `cwd`. */
+export async function connectMcpServer(
+  config: McpServerConfig,
+  cwd: string,
+): Promise<McpConnection> {
+  let transport: Transport;
+  if (!("type" in config)) {
+    transport = new StdioClientTransport({
+      command: config.command,
+      args: config.args,
+      env: {
+        ...getDefaultEnvironment(),
+        ...Object.fromEntries(config.env.map(({ name, value }) => [name, value])),
+      },
+      cwd,
+    });
+  } else {
+    const requestInit = {
+      headers: Object.fromEntries(config.headers.map(({ name, value }) => [name, value])),
+    };
+    // The SSE transport also sends these headers when it opens the event stream.
+    transport =
+      config.type === "http"
+        ? new StreamableHTTPClientTransport(new URL(config.url), { requestInit })
+        : new SSEClientTransport(new URL(config.url), { requestInit });
+  }
+
+  const client = new Client({ name: "opencode-acp", version: "1.0.0" });
+  await client.connect(transport);
+  try {
+    const { tools } = await client.listTools();
+    return { name: config.name, client, tools };
+  } catch (error) {
+    await client.close();
+    throw error;
+  }
+}
+
+/**
+ * The name a session's MCP tool is listed under: the server name and the tool name, limited to
+ * the characters OpenCode keeps in tool names.
+ */
+export function proxiedToolName(serverName: string, toolName: string): string {
+  return `${serverName}_${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Lists the tools of every session's MCP servers to OpenCode and forwards calls, once permitted,
+ * to the server of the session whose tool call is running them. Sessions only see their own servers' tools
+ * because each prompt turns off the tools of the other sessions.
+ */
+export function createProxyMcpServer(agent: OpenCodeAcpAgent): Server {
+  const server = new Server(
+    { name: EDITOR_MCP_SERVER_NAME, version: "1.0.0" },
+    { capabilities: { tools: {} } },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const tools = new Map<string, Tool>();
+    for (const session of Object.values(agent.sessions)) {
+      for (const connection of session.mcpConnections) {
+        for (const tool of connection.tools) {
+          const name = proxiedToolName(connection.name, tool.name);
+          tools.set(name, { ...tool, name });
+        }
+      }
+    }
+    return { tools: [...tools.values()] };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: input = {} } = request.params;
+    const toolCall = await agent.findToolCall(name, input);
+    const session = toolCall ? agent.sessions[toolCall.sessionId] : undefined;
+    for (const connection of session?.mcpConnections ?? []) {
+      const tool = connection.tools.find(
+        (tool) => proxiedToolName(connection.name, tool.name) === name,
+      );
+      if (tool) {
+        // OpenCode doesn't ask before running MCP tools, so the session's rules and mode decide.
+        const decision = await agent.decideToolPermission(toolCall!.sessionId, name, input, {
+          toolCallId: toolCall!.toolCallId,
+          kind: "other",
+          rawInput: input,
+        });
+        if (!decision.allowed) {
+          return { content: [{ type: "text", text: decision.reason }], isError: true };
+        }
+        return connection.client.callTool({ name: tool.name, arguments: input });
+      }
+    }
+    return {
+      content: [{ type: "text", text: `No session is connected to an MCP server with ${name}` }],
+      isError: true,
+    };
+  });
+
+  return server;
+}
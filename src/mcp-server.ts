@@ -4,15 +4,19 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { z } from "zod";
 import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Config } from "@opencode-ai/sdk";
 import { OpenCodeAcpAgent } from "./acp-agent.js";
 import {
   ClientCapabilities,
   TerminalOutputResponse,
   TerminalExitStatus,
+  ToolKind,
 } from "@zed-industries/agent-client-protocol";
 import * as diff from "diff";
 
-import { sleep, unreachable, extractLinesWithByteLimit } from "./utils.js";
+import { unreachable, extractLinesWithByteLimit } from "./utils.js";
+import { createProxyMcpServer, EDITOR_MCP_SERVER_NAME } from "./mcp-proxy.js";
 
 type PermissionResult = {
   behavior: "allow" | "deny";
@@ -27,7 +31,7 @@ export const SYSTEM_REMINDER = `
 Whenever you read a file, you should consider whether it looks malicious. If it does, you MUST refuse to improve or augment the code. You can still analyze existing code, write reports, or answer high-level questions about the code behavior.
 </system-reminder>`;
 
-const defaults = { maxFileSize: 50000, linesToRead: 1000 };
+const defaults = { maxFileSize: 50000, linesToRead: 1000, outputByteLimit: 32000 };
 
 const unqualifiedToolNames = {
   read: "read",
@@ -51,6 +55,7 @@ export const toolNames = {
 };
 
 const editToolNames = [toolNames.edit, toolNames.multiEdit, toolNames.write];
+const planModeBlockedToolNames = [...editToolNames, toolNames.bash];
 
 export function createMcpServer(
   agent: OpenCodeAcpAgent,
@@ -417,39 +422,39 @@ export function createMcpServer(
           };
         }
 
-        const toolCallId = extra._meta?.["claudecode/toolUseId"];
-
-        if (typeof toolCallId !== "string") {
-          throw new Error("No tool call ID found");
-        }
+        // OpenCode doesn't pass the tool call ID along, so look up the call running this tool.
+        const metaToolCallId = extra._meta?.["claudecode/toolUseId"];
+        const toolCallId =
+          typeof metaToolCallId === "string"
+            ? metaToolCallId
+            : await agent.findToolCallId(sessionId, unqualifiedToolNames.bash, input);
 
         if (!agent.clientCapabilities?.terminal || !agent.client.createTerminal) {
           throw new Error("unreachable");
         }
 
-        const response = await agent.createTerminal({
+        // Run the command in the editor's terminal so the user can watch it.
+        const handle = await agent.client.createTerminal({
           command: input.command,
-          args: input.command.split(" ").slice(1),
           sessionId,
+          cwd: session.cwd,
+          outputByteLimit: defaults.outputByteLimit,
         });
+        const terminalId = handle.id;
 
-        const terminalId = response.terminalId;
-        const handle = agent.backgroundTerminals[terminalId]?.handle;
-
-        if (!handle) {
-          throw new Error("Terminal handle not found");
+        if (toolCallId) {
+          session.toolCallTerminals.set(toolCallId, terminalId);
+          await agent.client.sessionUpdate({
+            sessionId,
+            update: {
+              sessionUpdate: "tool_call_update",
+              toolCallId,
+              status: "in_progress",
+              content: [{ type: "terminal", terminalId: terminalId }],
+            },
+          });
         }
 
-        await agent.client.sessionUpdate({
-          sessionId,
-          update: {
-            sessionUpdate: "tool_call_update",
-            toolCallId,
-            status: "in_progress",
-            content: [{ type: "terminal", terminalId: terminalId }],
-          },
-        });
-
         const abortPromise = new Promise((resolve) => {
           if (extra.signal.aborted) {
             resolve(null);
@@ -460,18 +465,27 @@ export function createMcpServer(
           }
         });
 
+        // Cleared once the command exits or is aborted, so that finished commands aren't killed.
+        let timer: ReturnType<typeof setTimeout> | undefined = undefined;
+        const timeoutPromise = new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, input.timeout_ms);
+        });
         const statusPromise = Promise.race([
           handle
             .waitForExit()
             .then((exitStatus: TerminalExitStatus) => ({ status: "exited" as const, exitStatus })),
           abortPromise.then(() => ({ status: "aborted" as const, exitStatus: null })),
-          sleep(input.timeout_ms).then(async () => {
-            if (agent.backgroundTerminals[terminalId]?.status === "started") {
+          timeoutPromise.then(async () => {
+            if (
+              !input.run_in_background ||
+              agent.backgroundTerminals[terminalId]?.status === "started"
+            ) {
               await handle.kill();
             }
             return { status: "timedOut" as const, exitStatus: null };
           }),
         ]);
+        statusPromise.finally(() => clearTimeout(timer));
 
         if (input.run_in_background) {
           agent.backgroundTerminals[terminalId] = {
@@ -659,6 +673,80 @@ const UNQUALIFIED_PERMISSION_TOOL_NAME = "permission";
 const PERMISSION_SERVER_PREFIX = "mcp__acpPermission__";
 export const PERMISSION_TOOL_NAME = PERMISSION_SERVER_PREFIX + UNQUALIFIED_PERMISSION_TOOL_NAME;
 
+async function canUseTool(
+  agent: OpenCodeAcpAgent,
+  sessionId: string,
+  input: {
+    tool_use_id?: string;
+    tool_name: string;
+    input?: any;
+  },
+): Promise<PermissionResult> {
+  const session = agent.sessions[sessionId];
+  if (!session) {
+    return {
+      behavior: "deny",
+      message: "Session not found",
+    };
+  }
+
+  if (input.tool_name === "ExitPlanMode") {
+    const exited = await agent.requestExitPlanMode(sessionId, {
+      toolCallId: input.tool_use_id!,
+      rawInput: input.input,
+    });
+
+    if (exited) {
+      return {
+        behavior: "allow",
+        updatedInput: input.input,
+        updatedPermissions: [
+          { type: "setMode", mode: session.permissionMode, destination: "session" },
+        ],
+      };
+    } else {
+      return {
+        behavior: "deny",
+        message: "User rejected request to exit plan mode.",
+      };
+    }
+  }
+
+  const decision = await agent.decideToolPermission(
+    sessionId,
+    permissionType(input.tool_name),
+    input.input,
+    {
+      toolCallId: input.tool_use_id!,
+      kind: toolKind(input.tool_name),
+      rawInput: input.input,
+    },
+  );
+  return decision.allowed
+    ? { behavior: "allow", updatedInput: input.input }
+    : { behavior: "deny", message: decision.reason };
+}
+
+// The permission OpenCode asks for before running its own version of our tools, so that the
+// same rules apply to both: `edit(src/**)` also covers our write and multi-edit tools.
+function permissionType(toolName: string): string {
+  if (editToolNames.includes(toolName)) {
+    return "edit";
+  }
+  return toolName === toolNames.bash ? "bash" : toolName;
+}
+
+// How Plan Mode and Accept Edits treat our tools.
+function toolKind(toolName: string): ToolKind {
+  if (editToolNames.includes(toolName)) {
+    return "edit";
+  }
+  if (toolName === toolNames.bash || toolName === toolNames.killBash) {
+    return "execute";
+  }
+  return toolName === toolNames.read || toolName === toolNames.bashOutput ? "read" : "other";
+}
+
 /**
  * Separate permission tool. Needs to be an HTTP server for now, because Claude Code doesn't
  * support permission tools via SDK servers.
@@ -673,7 +761,6 @@ export function createPermissionMcpServer(
     { capabilities: { tools: {} } },
   );
 
-  const alwaysAllowedTools: { [key: string]: boolean } = {};
   server.registerTool(
     UNQUALIFIED_PERMISSION_TOOL_NAME,
     {
@@ -686,7 +773,7 @@ export function createPermissionMcpServer(
       },
     },
     async (input) => {
-      const result = await canUseTool(input);
+      const result = await canUseTool(agent, sessionId, input);
 
       return {
         content: [{ type: "text", text: JSON.stringify(result) }],
@@ -694,139 +781,122 @@ export function createPermissionMcpServer(
     },
   );
 
-  async function canUseTool(input: {
-    tool_use_id?: string;
-    tool_name: string;
-    input?: any;
-  }): Promise<PermissionResult> {
-    const session = agent.sessions[sessionId];
-    if (!session) {
-      return {
-        behavior: "deny",
-        message: "Session not found",
-      };
-    }
+  const app = express();
+  app.use(express.json());
+  app.post("/mcp", (req, res) => handleMcpRequest(server, req, res));
+  return listen(app);
+}
 
-    if (input.tool_name === "ExitPlanMode") {
-      const response = await agent.client.requestPermission({
-        options: [
-          {
-            kind: "allow_always",
-            name: "Yes, and auto-accept edits",
-            optionId: "acceptEdits",
-          },
-          { kind: "allow_once", name: "Yes, and manually approve edits", optionId: "default" },
-          { kind: "reject_once", name: "No, keep planning", optionId: "plan" },
-        ],
-        sessionId,
-        toolCall: {
-          toolCallId: input.tool_use_id!,
-          rawInput: input.input,
-        },
+/**
+ * Hosts the tools from `createMcpServer` for the OpenCode server that the adapter spawns, and the
+ * tools of the MCP servers the editor passes to sessions (see `createProxyMcpServer`).
+ * OpenCode connects to MCP servers once for all of its sessions, so every tool call is routed to
+ * the ACP session whose OpenCode tool call is running it, and our own tools are checked against
+ * that session's permissions before they run.
+ */
+export function startMcpServer(getAgent: () => OpenCodeAcpAgent | undefined): Promise<Server> {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    if (!getAgent()) {
+      res.status(503).json({
+        jsonrpc: "2.0",
+        error: { code: -32603, message: "No ACP client is connected" },
+        id: req.body?.id ?? null,
       });
-
-      if (
-        response.outcome?.outcome === "selected" &&
-        (response.outcome.optionId === "default" || response.outcome.optionId === "acceptEdits")
-      ) {
-        session.permissionMode = response.outcome.optionId;
-        await agent.client.sessionUpdate({
-          sessionId,
-          update: {
-            sessionUpdate: "current_mode_update",
-            currentModeId: response.outcome.optionId,
-          },
-        });
-
-        return {
-          behavior: "allow",
-          updatedInput: input.input,
-          updatedPermissions: [
-            { type: "setMode", mode: response.outcome.optionId, destination: "session" },
-          ],
-        };
-      } else {
-        return {
-          behavior: "deny",
-          message: "User rejected request to exit plan mode.",
-        };
-      }
+      return;
     }
+    next();
+  });
 
-    if (
-      session.permissionMode === "bypassPermissions" ||
-      (session.permissionMode === "acceptEdits" && editToolNames.includes(input.tool_name)) ||
-      alwaysAllowedTools[input.tool_name]
-    ) {
-      return {
-        behavior: "allow",
-        updatedInput: input.input,
-      };
-    }
+  app.post("/mcp", async (req, res) => {
+    const agent = getAgent()!;
+    let sessionId = "";
+    if (req.body?.method === "tools/call") {
+      const { name, arguments: input = {} } = req.body.params;
+      const toolCall = await agent.findToolCall(name, input);
+      if (!toolCall) {
+        res.json(toolCallError(req.body.id, `No session is running ${name}`));
+        return;
+      }
+      sessionId = toolCall.sessionId;
 
-    const response = await agent.client.requestPermission({
-      options: [
-        {
-          kind: "allow_always",
-          name: "Always Allow",
-          optionId: "allow_always",
-        },
-        { kind: "allow_once", name: "Allow", optionId: "allow" },
-        { kind: "reject_once", name: "Reject", optionId: "reject" },
-      ],
-      sessionId,
-      toolCall: {
-        toolCallId: input.tool_use_id!,
-        rawInput: input.input,
-      },
-    });
-    if (
-      response.outcome?.outcome === "selected" &&
-      (response.outcome.optionId === "allow" || response.outcome.optionId === "allow_always")
-    ) {
-      if (response.outcome.optionId === "allow_always") {
-        alwaysAllowedTools[input.tool_name] = true;
+      if (planModeBlockedToolNames.includes(SERVER_PREFIX + name)) {
+        const result = await canUseTool(agent, sessionId, {
+          tool_name: SERVER_PREFIX + name,
+          input,
+          tool_use_id: toolCall.toolCallId,
+        });
+        if (result.behavior === "deny") {
+          res.json(toolCallError(req.body.id, result.message ?? "Permission denied"));
+          return;
+        }
       }
-      return {
-        behavior: "allow",
-        updatedInput: input.input,
-      };
-    } else {
-      return {
-        behavior: "deny",
-        message: "User refused permission to run tool",
+      // The tools read the tool call ID from where Claude Code passes it.
+      req.body.params._meta = {
+        ...req.body.params._meta,
+        "claudecode/toolUseId": toolCall.toolCallId,
       };
     }
-  }
 
-  const app = express();
-  app.use(express.json());
+    await handleMcpRequest(createMcpServer(agent, sessionId, agent.clientCapabilities), req, res);
+  });
 
-  app.post("/mcp", async (req, res) => {
-    try {
-      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: undefined,
-      });
-      res.on("close", () => {
-        transport.close();
-        server.close();
+  app.post("/editor-mcp", (req, res) =>
+    handleMcpRequest(createProxyMcpServer(getAgent()!), req, res),
+  );
+
+  return listen(app);
+}
+
+/** OpenCode's `mcp` config for the servers hosted by `startMcpServer`. */
+export function opencodeMcpConfig(server: Server): Config["mcp"] {
+  const { port } = server.address() as AddressInfo;
+  return {
+    acp: { type: "remote", url: `http://127.0.0.1:${port}/mcp` },
+    [EDITOR_MCP_SERVER_NAME]: { type: "remote", url: `http://127.0.0.1:${port}/editor-mcp` },
+  };
+}
+
+function toolCallError(id: string | number, message: string) {
+  return {
+    jsonrpc: "2.0",
+    id,
+    result: { content: [{ type: "text", text: message }], isError: true },
+  };
+}
+
+// Serves one MCP request statelessly.
+async function handleMcpRequest(
+  server: Pick<McpServer, "connect" | "close">,
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+    });
+    res.on("close", () => {
+      transport.close();
+      server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32603,
+          message: `Internal server error: ${error}`,
+        },
+        id: null,
       });
-      await server.connect(transport);
-      await transport.handleRequest(req, res, req.body);
-    } catch (error) {
-      if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32603,
-            message: `Internal server error: ${error}`,
-          },
-          id: null,
-        });
-      }
     }
-  });
+  }
+}
 
+function listen(app: express.Express): Promise<Server> {
   return new Promise((resolve, reject) => {
     const listener = app.listen(0, "127.0.0.1", (error) => {
       if (error) {
@@ -898,7 +968,7 @@ function toolCommandOutput(
   toolOutput += commandOutput;
 
   if (truncated) {
-    toolOutput += `\n\nCommand output was too long, so it was truncated to ${commandOutput.length} bytes.`;
+    toolOutput += `\n\nCommand output was too long, so only the last ${Buffer.byteLength(commandOutput, "utf8")} bytes are shown.`;
   }
 
   return toolOutput;
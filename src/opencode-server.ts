@@ -0,0 +1,190 @@
+import { spawn } from "node:child_process";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import { Config, createOpencodeClient } from "@opencode-ai/sdk";
+
+const LOG_LEVELS = ["DEBUG", "INFO", "WARN", "ERROR"] as const;
+type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface CliOptions {
+  /** Base URL of an already running `opencode serve`; a server is spawned when unset. */
+  url?: string;
+  headers: Record<string, string>;
+  hostname: string;
+  port: number;
+  configPath?: string;
+  logLevel?: LogLevel;
+  /** Whether to send the editor an `_opencode/usage` notification after every model step. */
+  usageNotifications: boolean;
+}
+
+/**
+ * OpenCode runs edits, commands and fetches without asking by default. The adapter's permission
+ * modes and rules are only applied to the tools OpenCode asks about, so servers it uses must ask.
+ */
+export const OPENCODE_PERMISSIONS: Config["permission"] = {
+  edit: "ask",
+  bash: "ask",
+  webfetch: "ask",
+};
+
+export const USAGE = `Usage: opencode-acp [options]
+
+Options:
+  --url <url>              Attach to a running OpenCode server (env: OPENCODE_BASE_URL)
+  --auth-header <header>   Header sent to that server, e.g. "Authorization: Bearer <token>"
+                           (env: OPENCODE_AUTH_HEADER)
+  --hostname <hostname>    Hostname for the spawned server (default: 127.0.0.1)
+  --port <port>            Port for the spawned server (default: random free port)
+  --config <path>          OpenCode config file for the spawned server
+  --log-level <level>      Log level of the spawned server: DEBUG, INFO, WARN or ERROR
+  --usage-notifications    Notify the editor of the tokens and cost of every model step
+  -h, --help               Show this help`;
+
+export function parseCliOptions(
+  argv: string[] = process.argv.slice(2),
+  env: typeof process.env = process.env,
+): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      url: { type: "string" },
+      "auth-header": { type: "string" },
+      hostname: { type: "string", default: "127.0.0.1" },
+      port: { type: "string", default: "0" },
+      config: { type: "string" },
+      "log-level": { type: "string" },
+      "usage-notifications": { type: "boolean", default: false },
+    },
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid --port: ${values.port}`);
+  }
+
+  const logLevel = values["log-level"]?.toUpperCase();
+  if (logLevel !== undefined && !LOG_LEVELS.includes(logLevel as LogLevel)) {
+    throw new Error(
+      `Invalid --log-level: ${values["log-level"]} (expected ${LOG_LEVELS.join(", ")})`,
+    );
+  }
+
+  const url = values.url ?? env.OPENCODE_BASE_URL;
+  const authHeader = values["auth-header"] ?? env.OPENCODE_AUTH_HEADER;
+  return {
+    url: url ? url.replace(/\/+$/, "") : undefined,
+    headers: authHeader ? parseHeader(authHeader) : {},
+    hostname: values.hostname!,
+    port,
+    configPath: values.config ? path.resolve(values.config) : undefined,
+    logLevel: logLevel as LogLevel | undefined,
+    usageNotifications: values["usage-notifications"]!,
+  };
+}
+
+// "Name: value", or just a value for the Authorization header.
+function parseHeader(header: string): Record<string, string> {
+  const separator = header.indexOf(":");
+  if (separator <= 0 || /\s/.test(header.slice(0, separator))) {
+    return { Authorization: header.trim() };
+  }
+  return { [header.slice(0, separator).trim()]: header.slice(separator + 1).trim() };
+}
+
+/**
+ * Spawns `opencode serve` and resolves with its URL once it is listening. Unlike the SDK's
+ * `createOpencodeServer` this can pass a config file and log level to the server. The server is
+ * always configured with `OPENCODE_PERMISSIONS`.
+ */
+export async function startOpencodeServer(
+  options: Pick<CliOptions, "hostname" | "port" | "configPath" | "logLevel"> & {
+    config?: Config;
+    timeout?: number;
+  },
+): Promise<{ url: string; close(): void }> {
+  const args = ["serve", `--hostname=${options.hostname}`, `--port=${options.port}`];
+  if (options.logLevel) {
+    args.push(`--log-level=${options.logLevel}`);
+  }
+  const proc = spawn("opencode", args, {
+    env: {
+      ...process.env,
+      ...(options.configPath ? { OPENCODE_CONFIG: options.configPath } : {}),
+      OPENCODE_CONFIG_CONTENT: JSON.stringify({
+        ...options.config,
+        permission: OPENCODE_PERMISSIONS,
+      }),
+    },
+  });
+
+  const url = await new Promise<string>((resolve, reject) => {
+    const timeout = options.timeout ?? 5000;
+    const timer = setTimeout(() => {
+      proc.kill();
+      reject(new Error(`Timeout waiting for the OpenCode server to start after ${timeout}ms`));
+    }, timeout);
+    let output = "";
+    proc.stdout?.on("data", (chunk) => {
+      output += chunk.toString();
+      const match = output.match(/opencode server listening on\s+(https?:\/\/\S+)/);
+      if (match) {
+        clearTimeout(timer);
+        resolve(match[1]);
+      }
+    });
+    proc.stderr?.on("data", (chunk) => {
+      output += chunk.toString();
+    });
+    proc.on("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`OpenCode server exited with code ${code}\n${output}`));
+    });
+    proc.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+
+  return { url, close: () => proc.kill() };
+}
+
+/**
+ * Fails unless the OpenCode server at `baseUrl` answers API requests with these headers, and
+ * resolves with its config otherwise.
+ */
+export async function checkServerHealth(
+  baseUrl: string,
+  headers: Record<string, string> = {},
+  timeout = 5000,
+): Promise<Config> {
+  const client = createOpencodeClient({ baseUrl, headers, signal: AbortSignal.timeout(timeout) });
+  let response: Response;
+  let config: Config | undefined;
+  try {
+    ({ response, data: config } = await client.config.get());
+  } catch (error) {
+    throw new Error(
+      `OpenCode server at ${baseUrl} is unreachable: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  if (!response.ok) {
+    throw new Error(
+      `OpenCode server at ${baseUrl} is unhealthy: ${response.status} ${response.statusText}`,
+    );
+  }
+  return config ?? {};
+}
+
+/** Fails unless the config of the OpenCode server at `baseUrl` asks as `OPENCODE_PERMISSIONS` does. */
+export function checkServerPermissions(baseUrl: string, config: Config): void {
+  const tools = Object.keys(OPENCODE_PERMISSIONS!) as (keyof NonNullable<Config["permission"]>)[];
+  const unchecked = tools.filter((tool) => config.permission?.[tool] !== "ask");
+  if (unchecked.length > 0) {
+    throw new Error(
+      `OpenCode server at ${baseUrl} doesn't ask before ${unchecked.join(", ")}, so permission ` +
+        `modes and rules wouldn't apply to them. Set "permission": ` +
+        `${JSON.stringify(OPENCODE_PERMISSIONS)} in its config.`,
+    );
+  }
+}
@@ -0,0 +1,307 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { homedir } from "node:os";
+
+export type PermissionBehavior = "allow" | "deny";
+
+export interface PermissionSettings {
+  permissions?: {
+    allow?: string[];
+    deny?: string[];
+  };
+}
+
+/**
+ * A parsed permission rule such as `bash(npm test:*)`, `edit(src/**)` or plain `webfetch`.
+ */
+export interface PermissionRule {
+  toolName: string;
+  specifier?: string;
+}
+
+const MCP_TOOL_PREFIX = /^mcp__[^_]+__/;
+
+export function parseRule(rule: string): PermissionRule {
+  const match = rule.trim().match(/^([^(]+)\((.*)\)$/);
+  if (!match) {
+    return { toolName: normalizeToolName(rule) };
+  }
+  return { toolName: normalizeToolName(match[1]), specifier: match[2].trim() || undefined };
+}
+
+export function formatRule(rule: PermissionRule): string {
+  return rule.specifier ? `${rule.toolName}(${rule.specifier})` : rule.toolName;
+}
+
+// OpenCode permission types ("bash", "edit") and our MCP tool names ("mcp__acp__edit", "Bash")
+// should both match the same rules.
+function normalizeToolName(toolName: string): string {
+  return toolName.trim().replace(MCP_TOOL_PREFIX, "").toLowerCase();
+}
+
+/**
+ * The value a rule specifier is matched against: the command for shell tools, the file path
+ * for file tools and the URL for fetch tools.
+ */
+export function permissionSubject(input: any): string | undefined {
+  if (!input || typeof input !== "object") {
+    return undefined;
+  }
+  for (const key of ["command", "filePath", "file_path", "abs_path", "path", "url"]) {
+    if (typeof input[key] === "string") {
+      return input[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The commands a shell command line runs, split on `;`, `&&`, `||`, `|`, `&`, newlines and
+ * command substitutions. Quoting is ignored, which can only split a command further.
+ */
+export function splitCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|\n`()]|\$\(|(?<![<>])&(?!>)/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+// Programs that run the rest of their arguments as a command, and their options taking a value.
+const COMMAND_WRAPPERS = [
+  "sudo",
+  "doas",
+  "env",
+  "command",
+  "exec",
+  "nohup",
+  "time",
+  "nice",
+  "xargs",
+];
+const WRAPPER_OPTIONS_WITH_VALUES = ["-u", "-g", "-n"];
+
+// The command a wrapped command line runs: `sudo -u root /bin/rm -rf /` runs `rm -rf /`.
+function unwrapCommand(command: string): string {
+  const words = command.split(/\s+/);
+  let i = 0;
+  while (i < words.length) {
+    if (/^\w+=/.test(words[i])) {
+      i++;
+    } else if (COMMAND_WRAPPERS.includes(path.basename(words[i]))) {
+      i++;
+      while (words[i]?.startsWith("-")) {
+        i += WRAPPER_OPTIONS_WITH_VALUES.includes(words[i]) ? 2 : 1;
+      }
+    } else {
+      break;
+    }
+  }
+  return [path.basename(words[i] ?? ""), ...words.slice(i + 1)].join(" ").trim();
+}
+
+/**
+ * Whether `rule` applies to a call of `toolName` with `input`. Allow rules only match command
+ * lines whose every command matches, while deny rules match when any of their commands does,
+ * including commands run through `sudo`, `env` and the like or quoted for `sh -c`.
+ */
+export function matchesRule(
+  rule: PermissionRule | string,
+  toolName: string,
+  input: any,
+  cwd: string,
+  behavior: PermissionBehavior = "allow",
+): boolean {
+  const parsed = typeof rule === "string" ? parseRule(rule) : rule;
+  if (parsed.toolName !== normalizeToolName(toolName)) {
+    return false;
+  }
+  if (!parsed.specifier) {
+    return true;
+  }
+
+  const subject = permissionSubject(input);
+  if (subject === undefined) {
+    return false;
+  }
+
+  // Allowing `npm test:*` mustn't also allow `npm test && rm -rf ~`, and denying `rm:*` must
+  // also deny `ls && sudo rm -rf /`.
+  if (typeof input.command === "string") {
+    if (behavior === "deny") {
+      return splitCommand(subject.replace(/["']/g, "\n")).some((command) =>
+        [command, unwrapCommand(command)].some((command) =>
+          matchesSpecifier(parsed.specifier!, command, cwd),
+        ),
+      );
+    }
+    const commands = splitCommand(subject);
+    return (
+      commands.length > 0 &&
+      commands.every((command) => matchesSpecifier(parsed.specifier!, command, cwd))
+    );
+  }
+  return matchesSpecifier(parsed.specifier, subject, cwd);
+}
+
+function matchesSpecifier(specifier: string, subject: string, cwd: string): boolean {
+  // `npm test:*` matches `npm test` and anything that starts with `npm test `.
+  if (specifier.endsWith(":*")) {
+    const prefix = specifier.slice(0, -2);
+    return subject === prefix || subject.startsWith(prefix + " ");
+  }
+
+  const pattern = globToRegExp(specifier);
+  if (pattern.test(subject)) {
+    return true;
+  }
+  if (path.isAbsolute(subject)) {
+    const relative = path.relative(cwd, subject);
+    return !relative.startsWith("..") && pattern.test(relative.split(path.sep).join("/"));
+  }
+  return false;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` also matches zero directories
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Suggests the rule recorded when the user picks "Always Allow" / "Always Deny": a command
+ * prefix for shell tools, the file path (relative to the project) for file tools, or the bare
+ * tool name otherwise. Command lines that run several commands get no rule, since one prefix
+ * can't describe them.
+ */
+export function suggestRule(toolName: string, input: any, cwd: string): PermissionRule | undefined {
+  const normalized = normalizeToolName(toolName);
+  const subject = permissionSubject(input);
+  if (!subject) {
+    return { toolName: normalized };
+  }
+
+  if (typeof input.command === "string") {
+    if (splitCommand(subject).length !== 1) {
+      return undefined;
+    }
+    const [program, subcommand] = subject.trim().split(/\s+/);
+    const prefix =
+      subcommand && /^[a-z][\w:-]*$/i.test(subcommand) ? `${program} ${subcommand}` : program;
+    return { toolName: normalized, specifier: `${prefix}:*` };
+  }
+
+  if (typeof input.url === "string") {
+    return { toolName: normalized };
+  }
+
+  const relative = path.isAbsolute(subject) ? path.relative(cwd, subject) : subject;
+  return {
+    toolName: normalized,
+    specifier: relative.startsWith("..") ? subject : relative.split(path.sep).join("/"),
+  };
+}
+
+export function projectPermissionsPath(cwd: string): string {
+  return path.join(cwd, ".opencode", "acp-permissions.json");
+}
+
+export function userPermissionsPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(homedir(), ".config");
+  return path.join(configHome, "opencode", "acp-permissions.json");
+}
+
+async function readSettings(filePath: string): Promise<PermissionSettings> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8")) as PermissionSettings;
+  } catch (error) {
+    if ((error as any).code !== "ENOENT") {
+      console.error(`Error reading permission settings ${filePath}:`, error);
+    }
+    return {};
+  }
+}
+
+export interface PermissionDecision {
+  behavior: PermissionBehavior;
+  rule: string;
+  source: "managed" | "settings";
+}
+
+/**
+ * "Always Allow" / "Always Deny" rules persisted in the project-level
+ * `.opencode/acp-permissions.json` and the user-level `~/.config/opencode/acp-permissions.json`,
+ * layered under the organisation's managed settings.
+ *
+ * Managed deny rules can't be overridden by anything, and any deny rule beats any allow rule.
+ * Files are re-read on every decision so hand edits take effect without restarting.
+ */
+export class PermissionRuleStore {
+  constructor(
+    private cwd: string,
+    private settingsPaths: string[] = [projectPermissionsPath(cwd), userPermissionsPath()],
+    private managedSettings: PermissionSettings | null = null,
+  ) {}
+
+  async decide(toolName: string, input: any): Promise<PermissionDecision | undefined> {
+    const settings = await Promise.all(this.settingsPaths.map(readSettings));
+    const layers: [PermissionDecision["source"], PermissionSettings[]][] = [
+      ["managed", this.managedSettings ? [this.managedSettings] : []],
+      ["settings", settings],
+    ];
+
+    for (const behavior of ["deny", "allow"] as const) {
+      for (const [source, layer] of layers) {
+        for (const file of layer) {
+          const rule = (file.permissions?.[behavior] ?? []).find((rule) =>
+            matchesRule(rule, toolName, input, this.cwd, behavior),
+          );
+          if (rule) {
+            return { behavior, rule, source };
+          }
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /** Records a rule in the project-level settings file. */
+  async addRule(behavior: PermissionBehavior, rule: PermissionRule): Promise<void> {
+    const filePath = this.settingsPaths[0];
+    const settings = await readSettings(filePath);
+    const rules = settings.permissions?.[behavior] ?? [];
+    const formatted = formatRule(rule);
+    if (rules.includes(formatted)) {
+      return;
+    }
+    settings.permissions = { ...settings.permissions, [behavior]: [...rules, formatted] };
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(settings, null, 2) + "\n");
+  }
+}
+
+/** A human-readable explanation of why a rule denied a tool, for display in the editor. */
+export function denialReason(toolName: string, decision: PermissionDecision): string {
+  return decision.source === "managed"
+    ? `Tool '${toolName}' is blocked by your organization's managed settings (deny rule \`${decision.rule}\`).`
+    : `Tool '${toolName}' is blocked by the "Always Deny" rule \`${decision.rule}\`.`;
+}
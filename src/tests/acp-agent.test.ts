@@ -16,7 +16,18 @@ import {
   WriteTextFileResponse,
 } from "@zed-industries/agent-client-protocol";
 import { nodeToWebWritable, nodeToWebReadable } from "../utils.js";
-import { markdownEscape, toolInfoFromToolUse, toolUpdateFromToolResult } from "../tools.js";
+import { AssistantMessage, Part } from "@opencode-ai/sdk";
+import { toAcpNotifications } from "../acp-agent.js";
+import {
+  diffsFromPatchText,
+  locationsFromGrepOutput,
+  locationsFromUnifiedDiff,
+  markdownEscape,
+  toolInfoFromToolPart,
+  toolInfoFromToolUse,
+  toolUpdateFromToolPart,
+  toolUpdateFromToolResult,
+} from "../tools.js";
 
 describe.skipIf(!process.env.RUN_INTEGRATION_TESTS)("ACP subprocess integration", () => {
   let child: ReturnType<typeof spawn>;
@@ -567,135 +578,407 @@ describe("tool conversions", () => {
     });
   });
 
+  it("should describe OpenCode's tools", () => {
+    expect(
+      toolInfoFromToolPart("grep", { pattern: "foo", include: "*.ts", path: "src/" }),
+    ).toStrictEqual({
+      title: `grep 'foo' --include="*.ts" in src/`,
+      kind: "search",
+      content: [],
+      locations: [{ path: "src/" }],
+    });
+    expect(toolInfoFromToolPart("read", { filePath: "/a.ts", offset: 10, limit: 5 })).toStrictEqual(
+      {
+        title: "Read `/a.ts` (11 - 15)",
+        kind: "read",
+        content: [],
+        locations: [{ path: "/a.ts", line: 10 }],
+      },
+    );
+    expect(toolInfoFromToolPart("acp_edit", { abs_path: "/a.ts" })).toMatchObject({
+      title: "Edit `/a.ts`",
+      kind: "edit",
+      locations: [{ path: "/a.ts" }],
+    });
+    expect(toolInfoFromToolPart("glob", { pattern: "**/*.md" })).toMatchObject({
+      title: "Find `**/*.md`",
+      kind: "search",
+    });
+    expect(toolInfoFromToolPart("list", {})).toMatchObject({
+      title: "List the current directory's contents",
+      kind: "search",
+    });
+    expect(toolInfoFromToolPart("webfetch", { url: "https://opencode.ai" })).toMatchObject({
+      title: "Fetch https://opencode.ai",
+      kind: "fetch",
+    });
+    expect(
+      toolInfoFromToolPart("task", { description: "Find the parser", prompt: "Look in src/" }),
+    ).toStrictEqual({
+      title: "Find the parser",
+      kind: "think",
+      content: [{ type: "content", content: { type: "text", text: "Look in src/" } }],
+    });
+    expect(toolInfoFromToolPart("github_search", {})).toStrictEqual({
+      title: "github_search",
+      kind: "other",
+      content: [],
+    });
+  });
+
+  it("should show OpenCode's tool results", () => {
+    const completed = (output: string) => ({
+      status: "completed" as const,
+      input: {},
+      output,
+      title: "",
+      metadata: {},
+      time: { start: 0, end: 1 },
+    });
+
+    expect(toolUpdateFromToolPart("bash", completed("ok\n"))).toStrictEqual({
+      content: [{ type: "content", content: { type: "text", text: "```\nok\n```" } }],
+    });
+    expect(toolUpdateFromToolPart("bash", completed(""))).toStrictEqual({});
+    expect(toolUpdateFromToolPart("webfetch", completed("# OpenCode"))).toStrictEqual({
+      content: [{ type: "content", content: { type: "text", text: "# OpenCode" } }],
+    });
+    expect(
+      toolUpdateFromToolPart("read", {
+        status: "error",
+        input: {},
+        error: "File not found",
+        time: { start: 0, end: 1 },
+      }),
+    ).toStrictEqual({
+      content: [{ type: "content", content: { type: "text", text: "```\nFile not found\n```" } }],
+    });
+  });
+
+  it("should show OpenCode's edits as diffs", () => {
+    const completed = (
+      input: { [key: string]: unknown },
+      metadata: { [key: string]: unknown },
+    ) => ({
+      status: "completed" as const,
+      input,
+      output: "",
+      title: "",
+      metadata,
+      time: { start: 0, end: 1 },
+    });
+    const unifiedDiff = [
+      "Index: /a.ts",
+      "===================================================================",
+      "--- /a.ts",
+      "+++ /a.ts",
+      "@@ -1,3 +1,3 @@",
+      " const a = 1;",
+      "-const b = 2;",
+      "+const b = 3;",
+      " const c = 4;",
+      "@@ -10,2 +10,3 @@",
+      "---- old rule",
+      "+++++ new rule",
+      " end();",
+      "\\ No newline at end of file",
+      "",
+    ].join("\n");
+
+    expect(
+      toolUpdateFromToolPart("edit", completed({ filePath: "/a.ts" }, { diff: unifiedDiff })),
+    ).toStrictEqual({
+      content: [
+        {
+          type: "diff",
+          path: "/a.ts",
+          oldText: "const a = 1;\nconst b = 2;\nconst c = 4;",
+          newText: "const a = 1;\nconst b = 3;\nconst c = 4;",
+        },
+        {
+          type: "diff",
+          path: "/a.ts",
+          oldText: "--- old rule\nend();",
+          newText: "++++ new rule\nend();",
+        },
+      ],
+      locations: [
+        { path: "/a.ts", line: 1 },
+        { path: "/a.ts", line: 9 },
+      ],
+    });
+    expect(
+      toolUpdateFromToolPart(
+        "edit",
+        completed(
+          { filePath: "/a.ts" },
+          { diff: unifiedDiff, filediff: { before: "a", after: "b" } },
+        ),
+      ),
+    ).toMatchObject({ content: [{ type: "diff", path: "/a.ts", oldText: "a", newText: "b" }] });
+    expect(
+      toolUpdateFromToolPart("write", completed({ filePath: "/b.ts", content: "new" }, {}), "old"),
+    ).toStrictEqual({ content: [{ type: "diff", path: "/b.ts", oldText: "old", newText: "new" }] });
+    expect(
+      toolUpdateFromToolPart("write", completed({ filePath: "/c.ts", content: "new" }, {})),
+    ).toStrictEqual({ content: [{ type: "diff", path: "/c.ts", oldText: null, newText: "new" }] });
+  });
+
+  it("should show OpenCode's patches as diffs", () => {
+    const patchText = [
+      "*** Begin Patch",
+      "*** Add File: docs/new.md",
+      "+# New",
+      "+",
+      "*** Update File: src/app.ts",
+      "@@ function main() {",
+      " start();",
+      "-stop();",
+      "+run();",
+      "@@ function other() {",
+      "-a();",
+      "+b();",
+      "*** Delete File: old.txt",
+      "*** End Patch",
+    ].join("\n");
+
+    expect(diffsFromPatchText(patchText)).toStrictEqual([
+      { type: "diff", path: "docs/new.md", oldText: null, newText: "# New\n" },
+      {
+        type: "diff",
+        path: "src/app.ts",
+        oldText: "start();\nstop();",
+        newText: "start();\nrun();",
+      },
+      { type: "diff", path: "src/app.ts", oldText: "a();", newText: "b();" },
+      { type: "content", content: { type: "text", text: "Deleted old.txt" } },
+    ]);
+  });
+
+  it("should send OpenCode's tool input and output", () => {
+    const grep = (state: object) =>
+      ({
+        id: "prt_1",
+        sessionID: "ses_1",
+        messageID: "msg_1",
+        type: "tool",
+        callID: "call_1",
+        tool: "grep",
+        state,
+      }) as Part;
+    const input = { pattern: "foo" };
+
+    expect(
+      toAcpNotifications(
+        {} as AssistantMessage,
+        grep({ status: "running", input, time: { start: 0 } }),
+        "test",
+      ),
+    ).toStrictEqual([
+      {
+        sessionId: "test",
+        update: {
+          sessionUpdate: "tool_call_update",
+          toolCallId: "call_1",
+          title: "grep 'foo'",
+          kind: "search",
+          status: "in_progress",
+          content: [],
+          locations: [],
+          rawInput: input,
+        },
+      },
+    ]);
+    expect(
+      toAcpNotifications(
+        {} as AssistantMessage,
+        grep({
+          status: "completed",
+          input,
+          output: "Found 1 match",
+          title: "foo",
+          metadata: { matches: 1 },
+          time: { start: 0, end: 1 },
+        }),
+        "test",
+      ),
+    ).toStrictEqual([
+      {
+        sessionId: "test",
+        update: {
+          sessionUpdate: "tool_call_update",
+          toolCallId: "call_1",
+          status: "completed",
+          content: [
+            { type: "content", content: { type: "text", text: "```\nFound 1 match\n```" } },
+          ],
+          locations: [],
+          rawOutput: { output: "Found 1 match", metadata: { matches: 1 } },
+        },
+      },
+    ]);
+  });
+
+  it("should locate OpenCode's tool calls", () => {
+    const completed = (input: { [key: string]: unknown }, output: string) => ({
+      status: "completed" as const,
+      input,
+      output,
+      title: "",
+      metadata: {},
+      time: { start: 0, end: 1 },
+    });
+    const fileContent = "one\ntwo\nthree\nfour\n";
+
+    expect(
+      toolInfoFromToolPart(
+        "edit",
+        { filePath: "/a.txt", oldString: "three", newString: "3" },
+        fileContent,
+      ).locations,
+    ).toStrictEqual([{ path: "/a.txt", line: 2 }]);
+    expect(
+      toolInfoFromToolPart(
+        "acp_multi-edit",
+        {
+          file_path: "/a.txt",
+          edits: [
+            { old_string: "one", new_string: "1" },
+            { old_string: "four", new_string: "4" },
+          ],
+        },
+        fileContent,
+      ).locations,
+    ).toStrictEqual([
+      { path: "/a.txt", line: 0 },
+      { path: "/a.txt", line: 3 },
+    ]);
+    // Edits that don't apply to the file are located on the file.
+    expect(
+      toolInfoFromToolPart(
+        "edit",
+        { filePath: "/a.txt", oldString: "five", newString: "5" },
+        fileContent,
+      ).locations,
+    ).toStrictEqual([{ path: "/a.txt" }]);
+    expect(
+      toolUpdateFromToolPart(
+        "acp_edit",
+        completed({ abs_path: "/a.txt", old_string: "two", new_string: "2" }, ""),
+        fileContent,
+      ).locations,
+    ).toStrictEqual([{ path: "/a.txt", line: 1 }]);
+
+    expect(
+      locationsFromGrepOutput(
+        [
+          "Found 3 matches",
+          "/repo/src/a.ts:",
+          "  Line 3: foo();",
+          "  Line 12: return foo;",
+          "",
+          "/repo/src/b.ts:",
+          "  Line 1: import { foo } from './a';",
+        ].join("\n"),
+      ),
+    ).toStrictEqual([
+      { path: "/repo/src/a.ts", line: 2 },
+      { path: "/repo/src/a.ts", line: 11 },
+      { path: "/repo/src/b.ts", line: 0 },
+    ]);
+    expect(
+      toolUpdateFromToolPart("glob", completed({ pattern: "*.ts" }, "/repo/a.ts\n/repo/b.ts"))
+        .locations,
+    ).toStrictEqual([{ path: "/repo/a.ts" }, { path: "/repo/b.ts" }]);
+    expect(
+      locationsFromUnifiedDiff("/a.ts", "@@ -5,3 +5,4 @@\n ctx\n ctx\n+added\n ctx\n"),
+    ).toStrictEqual([{ path: "/a.ts", line: 6 }]);
+  });
+
   it("should handle plan entries", () => {
-    // Temporarily commenting out this test case due to refactoring of toAcpNotifications
-    // const received: SDKAssistantMessage = {
-    //   type: "assistant",
-    //   message: {
-    //     id: "msg_017eNosJgww7F5qD4a8BcAcx",
-    //     type: "message",
-    //     role: "assistant",
-    //     model: "claude-sonnet-4-20250514",
-    //     content: [
-    //       {
-    //         type: "tool_use",
-    //         id: "toolu_01HaXZ4LfdchSeSR8ygt4zyq",
-    //         name: "TodoWrite",
-    //         input: {
-    //           todos: [
-    //             {
-    //               content: "Analyze existing test coverage and identify gaps",
-    //               status: "in_progress",
-    //               activeForm: "Analyzing existing test coverage",
-    //             },
-    //             {
-    //               content: "Add comprehensive edge case tests",
-    //               status: "pending",
-    //               activeForm: "Adding comprehensive edge case tests",
-    //             },
-    //             {
-    //               content: "Add performance and timing tests",
-    //               status: "pending",
-    //               activeForm: "Adding performance and timing tests",
-    //             },
-    //             {
-    //               content: "Add error handling and panic behavior tests",
-    //               status: "pending",
-    //               activeForm: "Adding error handling tests",
-    //             },
-    //             {
-    //               content: "Add concurrent access and race condition tests",
-    //               status: "pending",
-    //               activeForm: "Adding concurrent access tests",
-    //             },
-    //             {
-    //               content: "Add tests for Each function with various data types",
-    //               status: "pending",
-    //               activeForm: "Adding Each function tests",
-    //             },
-    //             {
-    //               content: "Add benchmark tests for performance measurement",
-    //               status: "pending",
-    //               activeForm: "Adding benchmark tests",
-    //             },
-    //             {
-    //               content: "Improve test organization and helper functions",
-    //               status: "pending",
-    //               activeForm: "Improving test organization",
-    //             },
-    //           ],
-    //         },
-    //       },
-    //     ],
-    //     stop_reason: null,
-    //     stop_sequence: null,
-    //     usage: {
-    //       input_tokens: 6,
-    //       cache_creation_input_tokens: 326,
-    //       cache_read_input_tokens: 17265,
-    //       cache_creation: {
-    //         ephemeral_5m_input_tokens: 326,
-    //         ephemeral_1h_input_tokens: 0,
-    //       },
-    //       output_tokens: 1,
-    //       service_tier: "standard",
-    //     },
-    //   },
-    //   parent_tool_use_id: null,
-    //   session_id: "d056596f-e328-41e9-badd-b07122ae5227",
-    //   uuid: "b7c3330c-de8f-4bba-ac53-68c7f76ffeb5",
-    // };
-    // // Temporarily commenting out this test case due to refactoring of toAcpNotifications
-    // // expect(toAcpNotifications(received, "test", {}, {})).toStrictEqual([
-    // //   {
-    // //     sessionId: "test",
-    // //     update: {
-    // //       sessionUpdate: "plan",
-    // //       entries: [
-    // //         {
-    // //           content: "Analyze existing test coverage and identify gaps",
-    // //           priority: "medium",
-    // //           status: "in_progress",
-    // //         },
-    // //         {
-    // //           content: "Add comprehensive edge case tests",
-    // //           priority: "medium",
-    // //           status: "pending",
-    // //         },
-    // //         {
-    // //           content: "Add performance and timing tests",
-    // //           priority: "medium",
-    // //           status: "pending",
-    // //         },
-    // //         {
-    // //           content: "Add error handling and panic behavior tests",
-    // //           priority: "medium",
-    // //           status: "pending",
-    // //         },
-    // //         {
-    // //           content: "Add concurrent access and race condition tests",
-    // //           priority: "medium",
-    // //           status: "pending",
-    // //         },
-    // //         {
-    // //           content: "Add tests for Each function with various data types",
-    // //           priority: "medium",
-    // //           status: "pending",
-    // //         },
-    // //         {
-    // //           content: "Add benchmark tests for performance measurement",
-    // //           priority: "medium",
-    // //           status: "pending",
-    // //         },
-    // //         {
-    // //           content: "Improve test organization and helper functions",
-    // //           priority: "medium",
-    // //           status: "pending",
-    // //         },
-    // //       ],
-    // //     },
-    // //   },
-    // // ]);
+    const todowrite = (state: object) =>
+      ({
+        id: "prt_1",
+        sessionID: "ses_1",
+        messageID: "msg_1",
+        type: "tool",
+        callID: "call_1",
+        tool: "todowrite",
+        state,
+      }) as Part;
+    const todos = [
+      { id: "1", content: "Analyze test coverage", status: "completed", priority: "high" },
+      { id: "2", content: "Add edge case tests", status: "in_progress", priority: "medium" },
+      { id: "3", content: "Add benchmarks", status: "cancelled", priority: "low" },
+      { id: "4", content: "Tidy helpers", status: "pending", priority: "low" },
+    ];
+    const plan = {
+      sessionUpdate: "plan",
+      entries: [
+        { content: "Analyze test coverage", status: "completed", priority: "high" },
+        { content: "Add edge case tests", status: "in_progress", priority: "medium" },
+        { content: "Tidy helpers", status: "pending", priority: "low" },
+      ],
+    };
+
+    expect(
+      toAcpNotifications({} as AssistantMessage, todowrite({ status: "pending" }), "test"),
+    ).toStrictEqual([]);
+    expect(
+      toAcpNotifications(
+        {} as AssistantMessage,
+        todowrite({ status: "running", input: { todos }, time: { start: 0 } }),
+        "test",
+      ),
+    ).toStrictEqual([{ sessionId: "test", update: plan }]);
+    expect(
+      toAcpNotifications(
+        {} as AssistantMessage,
+        todowrite({
+          status: "completed",
+          input: { todos },
+          output: JSON.stringify(todos),
+          title: "3 todos",
+          metadata: { todos },
+          time: { start: 0, end: 1 },
+        }),
+        "test",
+      ),
+    ).toStrictEqual([{ sessionId: "test", update: plan }]);
+  });
+
+  it("should send reasoning as thoughts", () => {
+    const reasoning = {
+      id: "prt_1",
+      sessionID: "ses_1",
+      messageID: "msg_1",
+      type: "reasoning",
+      text: "Let me check the tests first.",
+      time: { start: 0 },
+    } as Part;
+
+    expect(toAcpNotifications({} as AssistantMessage, reasoning, "test")).toStrictEqual([
+      {
+        sessionId: "test",
+        update: {
+          sessionUpdate: "agent_thought_chunk",
+          content: { type: "text", text: "Let me check the tests first." },
+        },
+      },
+    ]);
+  });
+
+  it("should leave a step's patch to the tool calls that changed its files", () => {
+    const patch = {
+      id: "prt_1",
+      sessionID: "ses_1",
+      messageID: "msg_1",
+      type: "patch",
+      hash: "4b825dc",
+      files: ["/Users/test/project/src/index.ts"],
+    } as Part;
+
+    expect(toAcpNotifications({} as AssistantMessage, patch, "test")).toStrictEqual([]);
   });
 
   it("should show full diff for multi edit tool", () => {
@@ -0,0 +1,1935 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { z } from "zod";
+import { AgentSideConnection } from "@zed-industries/agent-client-protocol";
+import { Event, Permission } from "@opencode-ai/sdk";
+import { ManagedSettings, Pushable } from "../utils.js";
+
+const fakeOpencode = vi.hoisted(() => ({ client: null as any }));
+
+vi.mock("@opencode-ai/sdk", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@opencode-ai/sdk")>()),
+  createOpencodeClient: () => fakeOpencode.client,
+}));
+
+import { OpenCodeAcpAgent } from "../acp-agent.js";
+
+function createFakeOpencodeClient() {
+  const events = new Pushable<Event>();
+  return {
+    events,
+    event: {
+      subscribe: vi.fn(async () => ({ stream: events })),
+    },
+    session: {
+      create: vi.fn(async () => ({ data: { id: "ses_test" } })),
+      abort: vi.fn(async () => ({ data: true })),
+      prompt: vi.fn(async () => ({ data: { info: {}, parts: [] } })),
+      list: vi.fn(async (_options: any): Promise<any> => ({ data: [] })),
+      get: vi.fn(async (_options: any): Promise<any> => ({ error: { name: "NotFoundError" } })),
+      messages: vi.fn(async (_options: any): Promise<any> => ({ data: [] })),
+      delete: vi.fn(async (_options: any): Promise<any> => ({ data: true })),
+      shell: vi.fn(async (_options: any): Promise<any> => ({ data: {} })),
+      children: vi.fn(async (_options: any): Promise<any> => ({ data: [] })),
+    },
+    app: {
+      agents: vi.fn(
+        async (_options: any): Promise<any> => ({
+          data: [
+            { name: "build", mode: "primary", builtIn: true },
+            { name: "plan", mode: "primary", builtIn: true },
+            { name: "general", mode: "subagent", builtIn: true },
+            { name: "reviewer", description: "Reviews changes", mode: "primary", builtIn: false },
+          ],
+        }),
+      ),
+    },
+    config: {
+      get: vi.fn(async (): Promise<any> => ({ data: {} })),
+      providers: vi.fn(
+        async (): Promise<any> => ({
+          data: {
+            providers: [
+              {
+                id: "anthropic",
+                name: "Anthropic",
+                env: ["ANTHROPIC_API_KEY"],
+                models: { "claude-sonnet-4": { id: "claude-sonnet-4", name: "Claude Sonnet 4" } },
+              },
+              {
+                id: "openrouter",
+                name: "OpenRouter",
+                env: ["OPENROUTER_API_KEY"],
+                models: { "openai/gpt-5": { id: "openai/gpt-5", name: "GPT-5" } },
+              },
+            ],
+            default: {},
+          },
+        }),
+      ),
+    },
+    auth: {
+      set: vi.fn(async (_options: any): Promise<any> => ({ data: true })),
+    },
+    postSessionIdPermissionsPermissionId: vi.fn(async () => ({ data: true })),
+  };
+}
+
+function createFakeAcpClient(optionId?: string) {
+  return {
+    sessionUpdate: vi.fn(async () => {}),
+    extNotification: vi.fn(async () => {}),
+    requestPermission: vi.fn(async () =>
+      optionId
+        ? { outcome: { outcome: "selected", optionId } }
+        : { outcome: { outcome: "cancelled" } },
+    ),
+  };
+}
+
+function permissionEvent(overrides: Partial<Permission> = {}): Event {
+  return {
+    type: "permission.updated",
+    properties: {
+      id: "per_1",
+      type: "bash",
+      pattern: "rm *",
+      sessionID: "ses_test",
+      messageID: "msg_1",
+      callID: "call_1",
+      title: "rm -rf build",
+      metadata: { command: "rm -rf build" },
+      time: { created: 0 },
+      ...overrides,
+    },
+  };
+}
+
+let cwd: string;
+
+beforeEach(async () => {
+  cwd = await fs.mkdtemp(path.join(os.tmpdir(), "acp-events-"));
+  vi.stubEnv("XDG_CONFIG_HOME", path.join(cwd, "config"));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await fs.rm(cwd, { recursive: true, force: true });
+});
+
+async function setup(optionId?: string, managedSettings: ManagedSettings | null = null) {
+  const opencode = createFakeOpencodeClient();
+  fakeOpencode.client = opencode;
+  const acpClient = createFakeAcpClient(optionId);
+  const agent = new OpenCodeAcpAgent(
+    acpClient as unknown as AgentSideConnection,
+    "http://127.0.0.1:0",
+    managedSettings,
+  );
+  const { sessionId } = await agent.newSession({ cwd, mcpServers: [] });
+  return { agent, opencode, acpClient, sessionId };
+}
+
+describe("OpenCode permission events", () => {
+  it("forwards permission requests to the client and replies with the decision", async () => {
+    const { opencode, acpClient } = await setup("allow_once");
+
+    opencode.events.push(permissionEvent());
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith({
+        path: { id: "ses_test", permissionID: "per_1" },
+        body: { response: "once" },
+      }),
+    );
+    expect(acpClient.requestPermission).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionId: "ses_test",
+        toolCall: expect.objectContaining({ toolCallId: "call_1", title: "rm -rf build" }),
+      }),
+    );
+  });
+
+  it("rejects the permission in OpenCode when the user denies it", async () => {
+    const { opencode, acpClient } = await setup("reject_once");
+
+    opencode.events.push(permissionEvent());
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith({
+        path: { id: "ses_test", permissionID: "per_1" },
+        body: { response: "reject" },
+      }),
+    );
+    expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+      sessionId: "ses_test",
+      update: expect.objectContaining({
+        sessionUpdate: "tool_call_update",
+        toolCallId: "call_1",
+        status: "failed",
+      }),
+    });
+  });
+
+  it("rejects the permission when the prompt is cancelled", async () => {
+    const { opencode } = await setup();
+
+    opencode.events.push(permissionEvent());
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { response: "reject" } }),
+      ),
+    );
+  });
+
+  it("approves without prompting in bypassPermissions mode", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup("reject_once");
+    await agent.setSessionMode({ sessionId, modeId: "bypassPermissions" });
+
+    opencode.events.push(permissionEvent());
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { response: "once" } }),
+      ),
+    );
+    expect(acpClient.requestPermission).not.toHaveBeenCalled();
+  });
+
+  it("only auto-approves edits in acceptEdits mode", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup("reject_once");
+    await agent.setSessionMode({ sessionId, modeId: "acceptEdits" });
+
+    opencode.events.push(permissionEvent({ id: "per_edit", type: "edit", callID: "call_edit" }));
+    opencode.events.push(permissionEvent({ id: "per_bash", callID: "call_bash" }));
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledTimes(2),
+    );
+    expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith({
+      path: { id: "ses_test", permissionID: "per_edit" },
+      body: { response: "once" },
+    });
+    expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith({
+      path: { id: "ses_test", permissionID: "per_bash" },
+      body: { response: "reject" },
+    });
+    expect(acpClient.requestPermission).toHaveBeenCalledTimes(1);
+  });
+
+  it("records Always Allow rules and stops prompting for matching requests", async () => {
+    const { opencode, acpClient } = await setup("allow_always");
+
+    opencode.events.push(permissionEvent({ metadata: { command: "npm test -- foo" } }));
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledTimes(1),
+    );
+
+    opencode.events.push(permissionEvent({ id: "per_2", metadata: { command: "npm test" } }));
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledTimes(2),
+    );
+
+    expect(acpClient.requestPermission).toHaveBeenCalledTimes(1);
+    expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenLastCalledWith({
+      path: { id: "ses_test", permissionID: "per_2" },
+      body: { response: "once" },
+    });
+    const settings = JSON.parse(
+      await fs.readFile(path.join(cwd, ".opencode", "acp-permissions.json"), "utf8"),
+    );
+    expect(settings).toEqual({ permissions: { allow: ["bash(npm test:*)"] } });
+  });
+
+  it("rejects requests matching an Always Deny rule without prompting", async () => {
+    await fs.mkdir(path.join(cwd, ".opencode"));
+    await fs.writeFile(
+      path.join(cwd, ".opencode", "acp-permissions.json"),
+      JSON.stringify({ permissions: { deny: ["bash(rm:*)"] } }),
+    );
+    const { opencode, acpClient } = await setup("allow_once");
+
+    opencode.events.push(permissionEvent());
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { response: "reject" } }),
+      ),
+    );
+    expect(acpClient.requestPermission).not.toHaveBeenCalled();
+  });
+
+  it("enforces managed deny rules even in bypassPermissions mode", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup("allow_once", {
+      permissions: { deny: ["bash(rm:*)"] },
+    });
+    await agent.setSessionMode({ sessionId, modeId: "bypassPermissions" });
+
+    opencode.events.push(permissionEvent());
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { response: "reject" } }),
+      ),
+    );
+    expect(acpClient.requestPermission).not.toHaveBeenCalled();
+
+    // OpenCode then fails the tool; the update keeps the admin-visible reason.
+    opencode.events.push({
+      type: "message.part.updated",
+      properties: {
+        part: {
+          id: "prt_1",
+          sessionID: "ses_test",
+          messageID: "msg_1",
+          type: "tool",
+          callID: "call_1",
+          tool: "bash",
+          state: {
+            status: "error",
+            input: { command: "rm -rf build" },
+            error: "The user rejected permission to use this specific tool call.",
+            time: { start: 0, end: 1 },
+          },
+        },
+      },
+    });
+
+    const reason =
+      "Tool 'bash' is blocked by your organization's managed settings (deny rule `bash(rm:*)`).";
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenLastCalledWith({
+        sessionId: "ses_test",
+        update: expect.objectContaining({
+          toolCallId: "call_1",
+          status: "failed",
+          content: [{ type: "content", content: { type: "text", text: reason } }],
+        }),
+      }),
+    );
+  });
+
+  it("auto-approves managed allow rules", async () => {
+    const { opencode, acpClient } = await setup("reject_once", {
+      permissions: { allow: ["bash(rm:*)"] },
+    });
+
+    opencode.events.push(permissionEvent());
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { response: "once" } }),
+      ),
+    );
+    expect(acpClient.requestPermission).not.toHaveBeenCalled();
+  });
+
+  it("does not prompt for pending tool parts", async () => {
+    const { opencode, acpClient } = await setup("allow_once");
+
+    opencode.events.push({
+      type: "message.part.updated",
+      properties: {
+        part: {
+          id: "prt_1",
+          sessionID: "ses_test",
+          messageID: "msg_1",
+          type: "tool",
+          callID: "call_1",
+          tool: "bash",
+          state: { status: "pending" },
+        },
+      },
+    });
+
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+        sessionId: "ses_test",
+        update: expect.objectContaining({ sessionUpdate: "tool_call", toolCallId: "call_1" }),
+      }),
+    );
+    expect(acpClient.requestPermission).not.toHaveBeenCalled();
+  });
+});
+
+describe("Plan Mode", () => {
+  it("lets read-only tools through the normal permission prompt", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup("allow_once");
+    await agent.setSessionMode({ sessionId, modeId: "plan" });
+
+    opencode.events.push(
+      permissionEvent({ type: "webfetch", metadata: { url: "https://example.com" } }),
+    );
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { response: "once" } }),
+      ),
+    );
+    expect(acpClient.requestPermission).toHaveBeenCalledWith(
+      expect.objectContaining({
+        toolCall: expect.objectContaining({ kind: "fetch" }),
+        options: expect.arrayContaining([expect.objectContaining({ optionId: "allow_once" })]),
+      }),
+    );
+  });
+
+  it("blocks modifying tools while the user keeps planning", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup("plan");
+    await agent.setSessionMode({ sessionId, modeId: "plan" });
+
+    opencode.events.push(permissionEvent());
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { response: "reject" } }),
+      ),
+    );
+    expect(acpClient.requestPermission).toHaveBeenCalledWith(
+      expect.objectContaining({
+        options: expect.arrayContaining([expect.objectContaining({ optionId: "acceptEdits" })]),
+      }),
+    );
+    expect(agent.sessions[sessionId].permissionMode).toBe("plan");
+  });
+
+  it("switches modes and runs the tool when the user leaves Plan Mode", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup("default");
+    await agent.setSessionMode({ sessionId, modeId: "plan" });
+
+    opencode.events.push(permissionEvent({ type: "edit", metadata: { filePath: "a.ts" } }));
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { response: "once" } }),
+      ),
+    );
+    expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+      sessionId,
+      update: { sessionUpdate: "current_mode_update", currentModeId: "default" },
+    });
+    expect(agent.sessions[sessionId].permissionMode).toBe("default");
+  });
+
+  it("prompts with OpenCode's plan agent", async () => {
+    const { agent, opencode, sessionId } = await setup();
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] });
+    await agent.setSessionMode({ sessionId, modeId: "plan" });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "plan it" }] });
+
+    expect(opencode.session.prompt).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ body: expect.objectContaining({ agent: undefined }) }),
+    );
+    expect(opencode.session.prompt).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ body: expect.objectContaining({ agent: "plan" }) }),
+    );
+  });
+});
+
+describe("Session commands", () => {
+  function sentText(acpClient: ReturnType<typeof createFakeAcpClient>): string {
+    return (acpClient.sessionUpdate.mock.calls as any[][])
+      .map(([notification]) => notification.update)
+      .filter((update) => update.sessionUpdate === "agent_message_chunk")
+      .map((update) => update.content.text)
+      .join("");
+  }
+
+  function opencodeSession(id: string, title: string, updated: number, overrides = {}) {
+    return {
+      id,
+      projectID: "prj",
+      directory: cwd,
+      title,
+      version: "0.11.1",
+      time: { created: 0, updated },
+      ...overrides,
+    };
+  }
+
+  it("lists the project's sessions, newest first", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup();
+    opencode.session.list.mockResolvedValue({
+      data: [
+        opencodeSession("ses_old", "Old investigation", Date.UTC(2025, 0, 1)),
+        opencodeSession("ses_test", "Current", Date.UTC(2025, 0, 3)),
+        opencodeSession("ses_new", "New investigation", Date.UTC(2025, 0, 2, 9, 30)),
+        opencodeSession("ses_child", "Subagent", Date.UTC(2025, 0, 4), { parentID: "ses_new" }),
+        opencodeSession("ses_other", "Elsewhere", Date.UTC(2025, 0, 5), { directory: "/other" }),
+      ],
+    });
+    opencode.session.messages.mockImplementation(async ({ path }: any) => ({
+      data: path.id === "ses_new" ? [{}, {}, {}] : [],
+    }));
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "/sessions" }] });
+
+    expect(opencode.session.list).toHaveBeenCalledWith({ query: { directory: cwd } });
+    const text = sentText(acpClient);
+    expect(text).toContain("- `ses_test` Current (current) — updated 2025-01-03 00:00, 0 messages");
+    expect(text).toContain("- `ses_new` New investigation — updated 2025-01-02 09:30, 3 messages");
+    expect(text.indexOf("ses_test")).toBeLessThan(text.indexOf("ses_new"));
+    expect(text.indexOf("ses_new")).toBeLessThan(text.indexOf("ses_old"));
+    expect(text).not.toContain("ses_child");
+    expect(text).not.toContain("ses_other");
+    expect(opencode.session.prompt).not.toHaveBeenCalled();
+  });
+
+  it("resumes a session into the current conversation", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup();
+    opencode.session.get.mockResolvedValue({
+      data: opencodeSession("ses_old", "Old investigation", 0),
+      error: undefined,
+    });
+    opencode.session.messages.mockResolvedValue({
+      data: [
+        {
+          info: { id: "msg_1", sessionID: "ses_old", role: "user", time: { created: 0 } },
+          parts: [{ id: "prt_1", type: "text", text: "Why is the build slow?" }],
+        },
+      ],
+    });
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "/resume ses_old" }] });
+
+    expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+      sessionId,
+      update: {
+        sessionUpdate: "user_message_chunk",
+        content: { type: "text", text: "Why is the build slow?" },
+      },
+    });
+
+    // Prompts and events now go through the resumed OpenCode session.
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "and now?" }] });
+    expect(opencode.session.prompt).toHaveBeenCalledWith(
+      expect.objectContaining({ path: { id: "ses_old" } }),
+    );
+
+    opencode.events.push(permissionEvent({ sessionID: "ses_old" }));
+    await vi.waitFor(() =>
+      expect(acpClient.requestPermission).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId }),
+      ),
+    );
+    expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith(
+      expect.objectContaining({ path: { id: "ses_old", permissionID: "per_1" } }),
+    );
+  });
+
+  it("reopens the resumed session when the conversation is loaded again", async () => {
+    const { agent, opencode, sessionId } = await setup();
+    opencode.session.get.mockResolvedValue({
+      data: opencodeSession("ses_old", "Old investigation", 0),
+    });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "/resume ses_old" }] });
+
+    // As after a restart of the adapter.
+    const restarted = await setup();
+    restarted.opencode.session.get.mockImplementation(async ({ path }: any) => ({
+      data: opencodeSession(path.id, "", 0),
+    }));
+    await restarted.agent.loadSession({ sessionId, cwd, mcpServers: [] });
+
+    expect(restarted.agent.sessions[sessionId].opencodeSessionId).toBe("ses_old");
+    expect(restarted.opencode.session.messages).toHaveBeenCalledWith({ path: { id: "ses_old" } });
+  });
+
+  it("reports unknown sessions on resume", async () => {
+    const { agent, acpClient, sessionId } = await setup();
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "/resume ses_missing" }] });
+
+    expect(sentText(acpClient)).toContain("Session `ses_missing` not found");
+    expect(agent.sessions[sessionId].opencodeSessionId).toBe("ses_test");
+  });
+
+  it("deletes sessions but not the open one", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup();
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "/delete ses_test" }] });
+    expect(opencode.session.delete).not.toHaveBeenCalled();
+    expect(sentText(acpClient)).toContain("can't be deleted");
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "/delete ses_old" }] });
+    expect(opencode.session.delete).toHaveBeenCalledWith({ path: { id: "ses_old" } });
+    expect(sentText(acpClient)).toContain("✅ Deleted session `ses_old`.");
+  });
+});
+
+describe("Model selection", () => {
+  it("reports the available models and the current one for new sessions", async () => {
+    const opencode = createFakeOpencodeClient();
+    fakeOpencode.client = opencode;
+    const agent = new OpenCodeAcpAgent(
+      createFakeAcpClient() as unknown as AgentSideConnection,
+      "http://127.0.0.1:0",
+    );
+
+    const response = await agent.newSession({ cwd, mcpServers: [] });
+
+    expect(response.models).toEqual({
+      currentModelId: "anthropic/claude-sonnet-4",
+      availableModels: [
+        { modelId: "anthropic/claude-sonnet-4", name: "Anthropic: Claude Sonnet 4" },
+        { modelId: "openrouter/openai/gpt-5", name: "OpenRouter: GPT-5" },
+      ],
+    });
+  });
+
+  it("sends the model picked with /model in every prompt", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup();
+
+    await agent.prompt({
+      sessionId,
+      prompt: [{ type: "text", text: "/model openrouter/openai/gpt-5" }],
+    });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] });
+
+    expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+      sessionId,
+      update: {
+        sessionUpdate: "agent_message_chunk",
+        content: { type: "text", text: "✅ Switched to `openrouter/openai/gpt-5`." },
+      },
+    });
+    expect(opencode.session.prompt).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          model: { providerID: "openrouter", modelID: "openai/gpt-5" },
+        }),
+      }),
+    );
+  });
+
+  it("rejects unknown models", async () => {
+    const { agent, sessionId } = await setup();
+
+    await expect(
+      agent.setSessionModel({ sessionId, modelId: "anthropic/unknown" }),
+    ).rejects.toThrow("Unknown model: anthropic/unknown");
+    await agent.setSessionModel({ sessionId, modelId: "openrouter/openai/gpt-5" });
+
+    expect(agent.sessions[sessionId].model).toEqual({
+      providerID: "openrouter",
+      modelID: "openai/gpt-5",
+    });
+  });
+});
+
+describe("Authentication", () => {
+  it("offers OpenCode's login as the auth method, even without any credentials", async () => {
+    const { agent, opencode } = await setup();
+    opencode.config.providers.mockResolvedValue({ data: { providers: [], default: {} } });
+
+    const { authMethods } = await agent.initialize({ protocolVersion: 1 });
+
+    expect(authMethods).toEqual([
+      expect.objectContaining({
+        id: "opencode-login",
+        _meta: {
+          "terminal-auth": {
+            command: "opencode",
+            args: ["auth", "login"],
+            label: "OpenCode Login",
+          },
+        },
+      }),
+    ]);
+  });
+
+  it("offers a login for each provider, including the configured one without credentials", async () => {
+    const { agent, opencode } = await setup();
+    opencode.config.get.mockResolvedValue({ data: { model: "openai/gpt-5" } });
+
+    const { authMethods } = await agent.initialize({ protocolVersion: 1 });
+
+    expect(authMethods?.map((method) => method.id)).toEqual([
+      "opencode-login",
+      "anthropic",
+      "openrouter",
+      "openai",
+    ]);
+    expect(authMethods?.[1]).toEqual({
+      id: "anthropic",
+      name: "Anthropic",
+      description: "Stores the API key passed in the request, or the one in $ANTHROPIC_API_KEY",
+    });
+  });
+
+  it("stores the provider's API key from the request or the environment", async () => {
+    const { agent, opencode } = await setup();
+
+    await expect(agent.authenticate({ methodId: "openrouter" })).rejects.toThrow(
+      `Pass OpenRouter's API key in _meta["opencode/apiKey"] or set OPENROUTER_API_KEY`,
+    );
+    await agent.authenticate({ methodId: "openrouter", _meta: { "opencode/apiKey": "sk-or-1" } });
+    vi.stubEnv("OPENROUTER_API_KEY", "sk-or-2");
+    await agent.authenticate({ methodId: "openrouter" });
+
+    expect(opencode.auth.set.mock.calls).toEqual([
+      [{ path: { id: "openrouter" }, body: { type: "api", key: "sk-or-1" } }],
+      [{ path: { id: "openrouter" }, body: { type: "api", key: "sk-or-2" } }],
+    ]);
+  });
+
+  it("only completes the login once OpenCode has credentials", async () => {
+    const { agent, opencode } = await setup();
+    opencode.config.providers.mockResolvedValueOnce({ data: { providers: [], default: {} } });
+
+    await expect(agent.authenticate({ methodId: "opencode-login" })).rejects.toThrow(
+      "Run `opencode auth login`",
+    );
+    await expect(agent.authenticate({ methodId: "opencode-login" })).resolves.toBeUndefined();
+    await expect(agent.authenticate({ methodId: "mistral" })).rejects.toThrow(
+      "Unknown auth method: mistral",
+    );
+  });
+
+  it("asks for a login when the session's provider has no credentials", async () => {
+    const { agent, opencode, sessionId } = await setup();
+    opencode.config.providers.mockResolvedValueOnce({ data: { providers: [], default: {} } });
+
+    await expect(
+      agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] }),
+    ).rejects.toMatchObject({ code: -32000, data: { providerID: "anthropic" } });
+    expect(opencode.session.prompt).not.toHaveBeenCalled();
+  });
+
+  it("asks for a login when OpenCode rejects the provider's credentials", async () => {
+    const { agent, opencode, sessionId } = await setup();
+    opencode.session.prompt.mockResolvedValueOnce({
+      data: {
+        info: {
+          error: {
+            name: "ProviderAuthError",
+            data: { providerID: "anthropic", message: "invalid x-api-key" },
+          },
+        },
+        parts: [],
+      },
+    } as any);
+
+    await expect(
+      agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] }),
+    ).rejects.toMatchObject({
+      code: -32000,
+      data: { providerID: "anthropic", message: "invalid x-api-key" },
+    });
+  });
+});
+
+describe("Stop reasons", () => {
+  async function promptWith(info: object, parts: object[] = []) {
+    const { agent, opencode, sessionId } = await setup();
+    opencode.session.prompt.mockResolvedValueOnce({ data: { info, parts } } as any);
+    return agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] });
+  }
+
+  it("maps OpenCode's message errors to stop reasons", async () => {
+    await expect(promptWith({})).resolves.toMatchObject({ stopReason: "end_turn" });
+    await expect(
+      promptWith({ error: { name: "MessageAbortedError", data: { message: "aborted" } } }),
+    ).resolves.toMatchObject({ stopReason: "cancelled" });
+    await expect(
+      promptWith({ error: { name: "MessageOutputLengthError", data: {} } }),
+    ).resolves.toMatchObject({ stopReason: "max_tokens" });
+  });
+
+  it("maps the finish reason of the last step", async () => {
+    const step = (reason: string) => ({
+      type: "step-finish",
+      reason,
+      cost: 0,
+      tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    });
+
+    await expect(promptWith({}, [step("tool-calls"), step("stop")])).resolves.toMatchObject({
+      stopReason: "end_turn",
+    });
+    await expect(promptWith({}, [step("length")])).resolves.toMatchObject({
+      stopReason: "max_tokens",
+    });
+    await expect(promptWith({}, [step("content-filter")])).resolves.toMatchObject({
+      stopReason: "refusal",
+    });
+    await expect(promptWith({}, [step("stop"), step("tool-calls")])).resolves.toMatchObject({
+      stopReason: "max_turn_requests",
+    });
+  });
+
+  it("ends the turn normally after a denied or aborted tool call", async () => {
+    const failedStep = (error: string) => [
+      { type: "step-start" },
+      {
+        type: "tool",
+        tool: "bash",
+        callID: "call_1",
+        state: { status: "error", input: {}, error },
+      },
+      {
+        type: "step-finish",
+        reason: "tool-calls",
+        cost: 0,
+        tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+      },
+    ];
+
+    await expect(
+      promptWith(
+        {},
+        failedStep(
+          "The user rejected permission to use this specific tool call. You may try again with different parameters.",
+        ),
+      ),
+    ).resolves.toMatchObject({ stopReason: "end_turn" });
+    await expect(promptWith({}, failedStep("Tool execution aborted"))).resolves.toMatchObject({
+      stopReason: "cancelled",
+    });
+    await expect(promptWith({}, failedStep("No such file"))).resolves.toMatchObject({
+      stopReason: "max_turn_requests",
+    });
+  });
+
+  it("reports other errors as JSON-RPC errors instead of refusals", async () => {
+    await expect(
+      promptWith({
+        error: {
+          name: "APIError",
+          data: { message: "Overloaded", statusCode: 529, isRetryable: true },
+        },
+      }),
+    ).rejects.toMatchObject({
+      code: -32603,
+      message: "OpenCode error: Overloaded",
+      data: { name: "APIError", message: "Overloaded", statusCode: 529 },
+    });
+    await expect(
+      promptWith({ error: { name: "UnknownError", data: { message: "socket hang up" } } }),
+    ).rejects.toMatchObject({ code: -32603, data: { name: "UnknownError" } });
+  });
+
+  it("explains context window overflows", async () => {
+    await expect(
+      promptWith({
+        error: {
+          name: "APIError",
+          data: { message: "prompt is too long: 210000 tokens > 200000 maximum" },
+        },
+      }),
+    ).rejects.toMatchObject({
+      code: -32603,
+      message: expect.stringContaining("Run /compact"),
+      data: { name: "APIError" },
+    });
+  });
+});
+
+describe("Usage", () => {
+  const tokens = (input: number, output: number) => ({
+    input,
+    output,
+    reasoning: 0,
+    cache: { read: 10, write: 0 },
+  });
+  const stepFinish = (cost: number, input: number, output: number) => ({
+    type: "step-finish",
+    cost,
+    tokens: tokens(input, output),
+  });
+
+  it("reports the tokens and cost of every step of the reply", async () => {
+    const { agent, opencode, sessionId } = await setup();
+    opencode.session.prompt.mockResolvedValueOnce({
+      data: {
+        // The message only keeps the tokens of its last step.
+        info: { cost: 0.03, tokens: tokens(200, 20) },
+        parts: [stepFinish(0.01, 100, 50), stepFinish(0.02, 200, 20)],
+      },
+    } as any);
+
+    const response = await agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] });
+
+    expect(response._meta).toEqual({
+      "opencode/usage": {
+        cost: 0.03,
+        tokens: { input: 300, output: 70, reasoning: 0, cache: { read: 20, write: 0 } },
+      },
+    });
+  });
+
+  it("totals the session and its subagent sessions per model with /cost", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup();
+    const reply = (providerID: string, modelID: string, parts: object[]) => ({
+      info: { role: "assistant", providerID, modelID, cost: 0, tokens: tokens(0, 0) },
+      parts,
+    });
+    opencode.session.messages.mockImplementation(async ({ path }: any) => ({
+      data:
+        path.id === "ses_test"
+          ? [
+              { info: { role: "user" }, parts: [] },
+              reply("anthropic", "claude-sonnet-4", [stepFinish(0.5, 1000, 200)]),
+            ]
+          : [reply("openrouter", "openai/gpt-5", [stepFinish(0.25, 2000, 100)])],
+    }));
+    opencode.session.children.mockImplementation(async ({ path }: any) => ({
+      data: path.id === "ses_test" ? [{ id: "ses_task" }] : [],
+    }));
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "/cost" }] });
+
+    expect(opencode.session.prompt).not.toHaveBeenCalled();
+    expect(acpClient.sessionUpdate).toHaveBeenLastCalledWith({
+      sessionId,
+      update: {
+        sessionUpdate: "agent_message_chunk",
+        content: {
+          type: "text",
+          text:
+            "Session cost: $0.7500 (3,000 input, 300 output, 0 reasoning, 20 cache read, 0 cache write tokens)\n" +
+            "- `anthropic/claude-sonnet-4`: $0.5000 (1,000 input, 200 output, 0 reasoning, 10 cache read, 0 cache write tokens)\n" +
+            "- `openrouter/openai/gpt-5`: $0.2500 (2,000 input, 100 output, 0 reasoning, 10 cache read, 0 cache write tokens)\n",
+        },
+      },
+    });
+  });
+
+  it("notifies the editor of every step's usage when asked to", async () => {
+    const opencode = createFakeOpencodeClient();
+    fakeOpencode.client = opencode;
+    const acpClient = createFakeAcpClient();
+    const agent = new OpenCodeAcpAgent(
+      acpClient as unknown as AgentSideConnection,
+      "http://127.0.0.1:0",
+      null,
+      {},
+      false,
+      true,
+    );
+    const { sessionId } = await agent.newSession({ cwd, mcpServers: [] });
+
+    opencode.events.push({
+      type: "message.part.updated",
+      properties: {
+        part: { id: "prt_1", sessionID: "ses_test", messageID: "msg_1", ...stepFinish(0.01, 5, 1) },
+      },
+    } as Event);
+
+    await vi.waitFor(() =>
+      expect(acpClient.extNotification).toHaveBeenCalledWith("opencode/usage", {
+        sessionId,
+        usage: { cost: 0.01, tokens: tokens(5, 1) },
+      }),
+    );
+  });
+});
+
+describe("Agent modes", () => {
+  it("offers OpenCode's primary agents alongside the permission modes", async () => {
+    const opencode = createFakeOpencodeClient();
+    fakeOpencode.client = opencode;
+    const agent = new OpenCodeAcpAgent(
+      createFakeAcpClient() as unknown as AgentSideConnection,
+      "http://127.0.0.1:0",
+    );
+
+    const { modes } = await agent.newSession({ cwd, mcpServers: [] });
+
+    expect(opencode.app.agents).toHaveBeenCalledWith({ query: { directory: cwd } });
+    expect(modes?.currentModeId).toBe("default");
+    expect(modes?.availableModes.map((mode) => mode.id)).toEqual([
+      "default",
+      "acceptEdits",
+      "bypassPermissions",
+      "plan",
+      "agent:reviewer",
+    ]);
+    expect(modes?.availableModes[4]).toEqual({
+      id: "agent:reviewer",
+      name: "Reviewer",
+      description: "Reviews changes",
+    });
+  });
+
+  it("prompts with the selected agent and reports the mode change", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup();
+
+    await agent.setSessionMode({ sessionId, modeId: "agent:reviewer" });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "review this" }] });
+
+    expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+      sessionId,
+      update: { sessionUpdate: "current_mode_update", currentModeId: "agent:reviewer" },
+    });
+    expect(opencode.session.prompt).toHaveBeenLastCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ agent: "reviewer" }) }),
+    );
+
+    await agent.setSessionMode({ sessionId, modeId: "acceptEdits" });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "fix it" }] });
+
+    expect(opencode.session.prompt).toHaveBeenLastCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ agent: undefined }) }),
+    );
+  });
+
+  it("rejects unknown agents and subagents", async () => {
+    const { agent, sessionId } = await setup();
+
+    await expect(agent.setSessionMode({ sessionId, modeId: "agent:missing" })).rejects.toThrow(
+      "Invalid mode",
+    );
+    await expect(agent.setSessionMode({ sessionId, modeId: "agent:general" })).rejects.toThrow(
+      "Invalid mode",
+    );
+  });
+});
+
+describe("History replay", () => {
+  it("replays attachments, thoughts and tool calls and restores the mode and model", async () => {
+    const opencode = createFakeOpencodeClient();
+    fakeOpencode.client = opencode;
+    const acpClient = createFakeAcpClient();
+    const agent = new OpenCodeAcpAgent(
+      acpClient as unknown as AgentSideConnection,
+      "http://127.0.0.1:0",
+    );
+    opencode.session.get.mockResolvedValue({ data: { id: "ses_old" } });
+    opencode.session.messages.mockResolvedValue({
+      data: [
+        {
+          info: { id: "msg_1", sessionID: "ses_old", role: "user", time: { created: 0 } },
+          parts: [
+            { id: "prt_1", type: "text", text: "What's in this screenshot?" },
+            { id: "prt_2", type: "text", text: "<file contents>", synthetic: true },
+            { id: "prt_3", type: "file", mime: "image/png", url: "data:image/png;base64,iVBOR" },
+            {
+              id: "prt_4",
+              type: "file",
+              mime: "text/plain",
+              filename: "a.txt",
+              url: "file:///a.txt",
+            },
+          ],
+        },
+        {
+          info: {
+            id: "msg_2",
+            sessionID: "ses_old",
+            role: "assistant",
+            mode: "reviewer",
+            providerID: "openrouter",
+            modelID: "openai/gpt-5",
+          },
+          parts: [
+            { id: "prt_5", type: "reasoning", text: "Let me look at the file." },
+            {
+              id: "prt_6",
+              type: "tool",
+              callID: "call_1",
+              tool: "read",
+              state: {
+                status: "completed",
+                input: { filePath: "/a.txt" },
+                output: "hello",
+                title: "a.txt",
+                metadata: {},
+                time: { start: 0, end: 1 },
+              },
+            },
+            {
+              id: "prt_8",
+              type: "tool",
+              callID: "call_2",
+              tool: "todowrite",
+              state: {
+                status: "completed",
+                input: { todos: [] },
+                output: "[]",
+                title: "1 todos",
+                metadata: {
+                  todos: [{ id: "1", content: "Reply", status: "completed", priority: "medium" }],
+                },
+                time: { start: 1, end: 2 },
+              },
+            },
+            { id: "prt_7", type: "text", text: "It says hello." },
+          ],
+        },
+      ],
+    });
+
+    const response = await agent.loadSession({ sessionId: "ses_old", cwd, mcpServers: [] });
+
+    const updates = (acpClient.sessionUpdate.mock.calls as any[][]).map(([n]) => n.update);
+    expect(updates).toEqual([
+      {
+        sessionUpdate: "user_message_chunk",
+        content: { type: "text", text: "What's in this screenshot?" },
+      },
+      {
+        sessionUpdate: "user_message_chunk",
+        content: { type: "image", mimeType: "image/png", data: "iVBOR" },
+      },
+      {
+        sessionUpdate: "user_message_chunk",
+        content: {
+          type: "resource_link",
+          uri: "file:///a.txt",
+          name: "a.txt",
+          mimeType: "text/plain",
+        },
+      },
+      {
+        sessionUpdate: "agent_thought_chunk",
+        content: { type: "text", text: "Let me look at the file." },
+      },
+      expect.objectContaining({
+        sessionUpdate: "tool_call",
+        toolCallId: "call_1",
+        title: "Read `/a.txt`",
+        kind: "read",
+        locations: [{ path: "/a.txt", line: 0 }],
+        rawInput: { filePath: "/a.txt" },
+      }),
+      expect.objectContaining({
+        sessionUpdate: "tool_call_update",
+        toolCallId: "call_1",
+        status: "completed",
+      }),
+      {
+        sessionUpdate: "plan",
+        entries: [{ content: "Reply", status: "completed", priority: "medium" }],
+      },
+      { sessionUpdate: "agent_message_chunk", content: { type: "text", text: "It says hello." } },
+    ]);
+    expect(response.modes?.currentModeId).toBe("agent:reviewer");
+    expect(response.models?.currentModelId).toBe("openrouter/openai/gpt-5");
+  });
+});
+
+describe("Event stream", () => {
+  function textPart(text: string): Event {
+    return {
+      type: "message.part.updated",
+      properties: {
+        part: {
+          id: "prt_1",
+          sessionID: "ses_test",
+          messageID: "msg_1",
+          type: "text",
+          text,
+          time: { start: 0 },
+        },
+      },
+    };
+  }
+
+  it("shows the session's todos as its plan", async () => {
+    const { opencode, acpClient, sessionId } = await setup();
+
+    opencode.events.push({
+      type: "todo.updated",
+      properties: {
+        sessionID: "ses_test",
+        todos: [
+          { id: "1", content: "Write the parser", status: "in_progress", priority: "high" },
+          { id: "2", content: "Document it", status: "pending", priority: "low" },
+        ],
+      },
+    } as unknown as Event);
+
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+        sessionId,
+        update: {
+          sessionUpdate: "plan",
+          entries: [
+            { content: "Write the parser", status: "in_progress", priority: "high" },
+            { content: "Document it", status: "pending", priority: "low" },
+          ],
+        },
+      }),
+    );
+  });
+
+  it("shows writes as a diff against the file they replaced", async () => {
+    const { opencode, acpClient, sessionId } = await setup();
+    const filePath = path.join(cwd, "notes.md");
+    await fs.writeFile(filePath, "old notes\n");
+    const write = (state: object) =>
+      ({
+        type: "message.part.updated",
+        properties: {
+          part: {
+            id: "prt_1",
+            sessionID: "ses_test",
+            messageID: "msg_1",
+            type: "tool",
+            callID: "call_1",
+            tool: "write",
+            state,
+          },
+        },
+      }) as Event;
+    const input = { filePath, content: "new notes\n" };
+
+    opencode.events.push(write({ status: "running", input, time: { start: 0 } }));
+    await vi.waitFor(() => expect(acpClient.sessionUpdate).toHaveBeenCalledTimes(1));
+    await fs.writeFile(filePath, input.content);
+    opencode.events.push(
+      write({
+        status: "completed",
+        input,
+        output: "",
+        title: "notes.md",
+        metadata: { exists: true },
+        time: { start: 0, end: 1 },
+      }),
+    );
+
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenLastCalledWith({
+        sessionId,
+        update: expect.objectContaining({
+          status: "completed",
+          content: [
+            { type: "diff", path: filePath, oldText: "old notes\n", newText: "new notes\n" },
+          ],
+        }),
+      }),
+    );
+  });
+
+  it("locates edits on the lines they change", async () => {
+    const { opencode, acpClient, sessionId } = await setup();
+    const filePath = path.join(cwd, "lines.txt");
+    await fs.writeFile(filePath, "one\ntwo\nthree\n");
+    opencode.events.push({
+      type: "message.part.updated",
+      properties: {
+        part: {
+          id: "prt_1",
+          sessionID: "ses_test",
+          messageID: "msg_1",
+          type: "tool",
+          callID: "call_1",
+          tool: "edit",
+          state: {
+            status: "running",
+            input: { filePath, oldString: "three", newString: "3" },
+            time: { start: 0 },
+          },
+        },
+      },
+    } as Event);
+
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenLastCalledWith({
+        sessionId,
+        update: expect.objectContaining({
+          status: "in_progress",
+          locations: [{ path: filePath, line: 2 }],
+        }),
+      }),
+    );
+  });
+
+  it("resubscribes and catches up on replies after the stream drops", async () => {
+    const { opencode, acpClient } = await setup();
+    opencode.events.push(textPart("Hello "));
+    await vi.waitFor(() => expect(acpClient.sessionUpdate).toHaveBeenCalledTimes(1));
+
+    const reconnected = new Pushable<Event>();
+    opencode.event.subscribe.mockResolvedValueOnce({ stream: reconnected });
+    opencode.session.messages.mockResolvedValue({
+      data: [
+        {
+          info: { id: "msg_1", sessionID: "ses_test", role: "assistant", time: { created: 0 } },
+          parts: [(textPart("Hello world") as any).properties.part],
+        },
+      ],
+    });
+    opencode.events.end();
+    reconnected.push({ type: "server.connected", properties: {} });
+
+    await vi.waitFor(
+      () =>
+        expect(acpClient.sessionUpdate).toHaveBeenLastCalledWith({
+          sessionId: "ses_test",
+          update: {
+            sessionUpdate: "agent_message_chunk",
+            content: { type: "text", text: "world" },
+          },
+        }),
+      { timeout: 3000 },
+    );
+    expect(opencode.event.subscribe).toHaveBeenCalledTimes(2);
+    expect(opencode.event.subscribe).toHaveBeenCalledWith(
+      expect.objectContaining({ sseMaxRetryAttempts: 1 }),
+    );
+  });
+
+  it("tells every session when the server can't be reached again", async () => {
+    vi.useFakeTimers();
+    const { opencode, acpClient } = await setup();
+    opencode.event.subscribe.mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    opencode.events.end();
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+
+    expect(opencode.event.subscribe).toHaveBeenCalledTimes(9);
+    expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+      sessionId: "ses_test",
+      update: {
+        sessionUpdate: "agent_message_chunk",
+        content: {
+          type: "text",
+          text: expect.stringContaining(
+            "Lost connection to the OpenCode server (connect ECONNREFUSED)",
+          ),
+        },
+      },
+    });
+  });
+});
+
+describe("Subagents", () => {
+  const toolPart = (sessionID: string, callID: string, tool: string, state: object) =>
+    ({
+      type: "message.part.updated",
+      properties: {
+        part: {
+          id: `prt_${callID}`,
+          sessionID,
+          messageID: "msg_1",
+          type: "tool",
+          callID,
+          tool,
+          state,
+        },
+      },
+    }) as Event;
+  const taskInput = {
+    description: "Find the parser",
+    prompt: "Where is it?",
+    subagent_type: "general",
+  };
+  const grepInput = { pattern: "parse" };
+
+  async function startTask() {
+    const context = await setup("allow_once");
+    const { opencode, acpClient } = context;
+    opencode.events.push(
+      toolPart("ses_test", "call_task", "task", {
+        status: "running",
+        input: taskInput,
+        time: { start: 0 },
+      }),
+    );
+    opencode.events.push({
+      type: "session.updated",
+      properties: {
+        info: {
+          id: "ses_child",
+          parentID: "ses_test",
+          title: "Find the parser (@general subagent)",
+          projectID: "prj",
+          directory: cwd,
+          version: "0.11.1",
+          time: { created: 0, updated: 0 },
+        },
+      },
+    });
+    await vi.waitFor(() => expect(acpClient.sessionUpdate).toHaveBeenCalledTimes(1));
+    return context;
+  }
+
+  it("shows the subagent's tool calls and summary in its task", async () => {
+    const { opencode, acpClient, sessionId } = await startTask();
+    const activity = (text: string) => [{ type: "content", content: { type: "text", text } }];
+
+    opencode.events.push(
+      toolPart("ses_child", "call_grep", "grep", {
+        status: "running",
+        input: grepInput,
+        time: { start: 0 },
+      }),
+    );
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenLastCalledWith({
+        sessionId,
+        update: {
+          sessionUpdate: "tool_call_update",
+          toolCallId: "call_task",
+          content: activity("- ⏳ grep 'parse'"),
+        },
+      }),
+    );
+
+    opencode.events.push(
+      toolPart("ses_child", "call_grep", "grep", {
+        status: "completed",
+        input: grepInput,
+        output: "src/parser.ts",
+        title: "parse",
+        metadata: {},
+        time: { start: 0, end: 1 },
+      }),
+    );
+    opencode.events.push(
+      toolPart("ses_test", "call_task", "task", {
+        status: "running",
+        input: taskInput,
+        metadata: { summary: [] },
+        time: { start: 0 },
+      }),
+    );
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenLastCalledWith({
+        sessionId,
+        update: expect.objectContaining({
+          toolCallId: "call_task",
+          status: "in_progress",
+          content: activity("- ✅ grep 'parse'"),
+        }),
+      }),
+    );
+
+    opencode.events.push(
+      toolPart("ses_test", "call_task", "task", {
+        status: "completed",
+        input: taskInput,
+        output: "It's in src/parser.ts.",
+        title: "Find the parser",
+        metadata: {},
+        time: { start: 0, end: 2 },
+      }),
+    );
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenLastCalledWith({
+        sessionId,
+        update: expect.objectContaining({
+          toolCallId: "call_task",
+          status: "completed",
+          content: [...activity("- ✅ grep 'parse'"), ...activity("It's in src/parser.ts.")],
+        }),
+      }),
+    );
+  });
+
+  it("asks for the subagent's permissions in its task", async () => {
+    const { opencode, acpClient, sessionId } = await startTask();
+
+    opencode.events.push(
+      permissionEvent({ sessionID: "ses_child", callID: "call_bash", title: "rm -rf build" }),
+    );
+
+    await vi.waitFor(() =>
+      expect(opencode.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith({
+        path: { id: "ses_child", permissionID: "per_1" },
+        body: { response: "once" },
+      }),
+    );
+    expect(acpClient.requestPermission).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionId,
+        toolCall: expect.objectContaining({ toolCallId: "call_task", title: "rm -rf build" }),
+      }),
+    );
+  });
+
+  it("finds the subagent's MCP tool calls in its task", async () => {
+    const { opencode, agent, sessionId } = await startTask();
+    const writeInput = { file_path: `${cwd}/a.txt`, content: "hi" };
+
+    const toolCall = agent.findToolCall("write", writeInput);
+    opencode.events.push(
+      toolPart("ses_child", "call_write", "acp_write", {
+        status: "running",
+        input: writeInput,
+        time: { start: 0 },
+      }),
+    );
+
+    await expect(toolCall).resolves.toEqual({ sessionId, toolCallId: "call_task" });
+  });
+});
+
+describe("Terminals", () => {
+  function shellPart(state: any): Event {
+    return {
+      type: "message.part.updated",
+      properties: {
+        part: {
+          id: "prt_shell",
+          sessionID: "ses_terminal",
+          messageID: "msg_shell",
+          type: "tool",
+          callID: "call_shell",
+          tool: "bash",
+          state,
+        },
+      },
+    } as Event;
+  }
+
+  function shellMessages(output: string) {
+    return {
+      data: [
+        {
+          info: { id: "msg_shell", sessionID: "ses_terminal", role: "assistant" },
+          parts: [
+            (
+              shellPart({
+                status: "completed",
+                input: {},
+                output,
+                title: "",
+                metadata: {},
+                time: { start: 0, end: 0 },
+              }) as any
+            ).properties.part,
+          ],
+        },
+      ],
+    };
+  }
+
+  async function startTerminal(outputByteLimit?: number) {
+    const context = await setup();
+    let finishShell!: () => void;
+    context.opencode.session.create.mockResolvedValueOnce({ data: { id: "ses_terminal" } });
+    context.opencode.session.shell.mockImplementationOnce(
+      () => new Promise((resolve) => (finishShell = () => resolve({ data: {} }))),
+    );
+    const { terminalId } = await context.agent.createTerminal({
+      sessionId: context.sessionId,
+      command: "npm test",
+      outputByteLimit,
+    });
+    return { ...context, terminalId, finishShell: () => finishShell() };
+  }
+
+  it("runs the command in a child session and streams its output", async () => {
+    const { agent, opencode, acpClient, sessionId, terminalId } = await startTerminal();
+
+    expect(opencode.session.create).toHaveBeenLastCalledWith({
+      query: { directory: cwd },
+      body: { parentID: "ses_test", title: "Terminal: npm test" },
+    });
+    expect(opencode.session.shell).toHaveBeenCalledWith({
+      path: { id: "ses_terminal" },
+      body: { agent: "build", command: expect.stringContaining("\nnpm test\n") },
+    });
+
+    opencode.events.push(
+      shellPart({ status: "running", input: {}, metadata: { output: "PASS a.test.ts\n" } }),
+    );
+    await vi.waitFor(async () =>
+      expect(await agent.terminalOutput({ sessionId, terminalId })).toEqual({
+        output: "PASS a.test.ts\n",
+        truncated: false,
+        exitStatus: null,
+      }),
+    );
+    expect(acpClient.sessionUpdate).not.toHaveBeenCalled();
+  });
+
+  it("runs in the requested directory with the requested environment", async () => {
+    const { agent, opencode, sessionId } = await setup(undefined, { env: { CI: "managed" } });
+    await fs.mkdir(path.join(cwd, "packages", "my app"), { recursive: true });
+
+    await agent.createTerminal({
+      sessionId,
+      command: 'printf \'%s|\' "$PWD" "$CI" "$GREETING"',
+      args: ["it's", "two words", ""],
+      cwd: "packages/my app",
+      env: [
+        { name: "GREETING", value: "hello $USER" },
+        { name: "CI", value: "request" },
+      ],
+    });
+
+    const { command } = opencode.session.shell.mock.calls[0][0].body;
+    expect(execFileSync("sh", ["-c", command], { encoding: "utf8" })).toBe(
+      `${await fs.realpath(path.join(cwd, "packages", "my app"))}|managed|hello $USER|it's|two words||` +
+        "\n__ACP_EXIT_STATUS__0\n",
+    );
+  });
+
+  it("skips the command when the directory doesn't exist", async () => {
+    const { agent, opencode, sessionId } = await setup();
+
+    await agent.createTerminal({ sessionId, command: "echo ran", cwd: "missing" });
+
+    const { command } = opencode.session.shell.mock.calls[0][0].body;
+    const output = execFileSync("sh", ["-c", command], {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+    expect(output).toMatch(/^\n__ACP_EXIT_STATUS__[1-9]\d*\n$/);
+  });
+
+  it("reports the exit code once the command finishes", async () => {
+    const { agent, opencode, sessionId, terminalId, finishShell } = await startTerminal();
+    opencode.session.messages.mockResolvedValueOnce(
+      shellMessages("FAIL a.test.ts\n\n__ACP_EXIT_STATUS__1\n"),
+    );
+
+    const exited = agent.waitForTerminalExit({ sessionId, terminalId });
+    finishShell();
+
+    await expect(exited).resolves.toEqual({ exitCode: 1, signal: null });
+    expect(await agent.terminalOutput({ sessionId, terminalId })).toEqual({
+      output: "FAIL a.test.ts\n",
+      truncated: false,
+      exitStatus: { exitCode: 1, signal: null },
+    });
+  });
+
+  it("maps exit codes above 128 to the signal that ended the command", async () => {
+    const { agent, opencode, sessionId, terminalId, finishShell } = await startTerminal();
+    opencode.session.messages.mockResolvedValueOnce(shellMessages("__ACP_EXIT_STATUS__137\n"));
+
+    finishShell();
+
+    await expect(agent.waitForTerminalExit({ sessionId, terminalId })).resolves.toEqual({
+      exitCode: null,
+      signal: "SIGKILL",
+    });
+  });
+
+  it("keeps only the tail of the output within the byte limit", async () => {
+    const { agent, opencode, sessionId, terminalId, finishShell } = await startTerminal(9);
+    opencode.events.push(
+      shellPart({ status: "running", input: {}, metadata: { output: "short" } }),
+    );
+    await vi.waitFor(async () =>
+      expect(await agent.terminalOutput({ sessionId, terminalId })).toMatchObject({
+        output: "short",
+        truncated: false,
+      }),
+    );
+
+    // "é" is two bytes, so the last 9 bytes start inside one and it is dropped whole.
+    opencode.session.messages.mockResolvedValueOnce(
+      shellMessages("aéééééé\n__ACP_EXIT_STATUS__0\n"),
+    );
+    finishShell();
+    await agent.waitForTerminalExit({ sessionId, terminalId });
+
+    expect(await agent.terminalOutput({ sessionId, terminalId })).toEqual({
+      output: "éééé",
+      truncated: true,
+      exitStatus: { exitCode: 0, signal: null },
+    });
+  });
+
+  it("kills the command by aborting its session", async () => {
+    const { agent, opencode, sessionId, terminalId, finishShell } = await startTerminal();
+    opencode.session.abort.mockImplementationOnce(async () => {
+      finishShell();
+      return { data: true };
+    });
+
+    const exited = agent.waitForTerminalExit({ sessionId, terminalId });
+    await agent["terminal/kill"]({ sessionId, terminalId });
+
+    expect(opencode.session.abort).toHaveBeenCalledWith({ path: { id: "ses_terminal" } });
+    await expect(exited).resolves.toEqual({ exitCode: null, signal: "SIGTERM" });
+  });
+
+  it("deletes the child session on release", async () => {
+    const { agent, opencode, sessionId, terminalId, finishShell } = await startTerminal();
+    finishShell();
+    await agent.waitForTerminalExit({ sessionId, terminalId });
+
+    await agent.releaseTerminal({ sessionId, terminalId });
+
+    expect(opencode.session.abort).not.toHaveBeenCalled();
+    expect(opencode.session.delete).toHaveBeenCalledWith({ path: { id: "ses_terminal" } });
+    await expect(agent.terminalOutput({ sessionId, terminalId })).rejects.toThrow(
+      "Terminal not found",
+    );
+    expect(agent.backgroundTerminals).toEqual({});
+  });
+});
+
+describe("Client terminals", () => {
+  function bashPart(state: any): Event {
+    return {
+      type: "message.part.updated",
+      properties: {
+        part: {
+          id: "prt_bash",
+          sessionID: "ses_test",
+          messageID: "msg_1",
+          type: "tool",
+          callID: "call_bash",
+          tool: "acp_Bash",
+          state,
+        },
+      },
+    } as Event;
+  }
+
+  it("finds the tool call running an MCP tool once its part arrives", async () => {
+    const { agent, opencode, sessionId } = await setup();
+
+    const toolCallId = agent.findToolCallId(sessionId, "Bash", {
+      command: "npm run build",
+      timeout_ms: 120000,
+    });
+    opencode.events.push(
+      bashPart({
+        status: "running",
+        input: { command: "npm run build" },
+        time: { start: 0 },
+      }),
+    );
+
+    await expect(toolCallId).resolves.toBe("call_bash");
+    await expect(
+      agent.findToolCallId(sessionId, "Bash", { command: "npm test" }, 50),
+    ).resolves.toBeUndefined();
+  });
+
+  it("keeps showing the terminal when the tool call completes", async () => {
+    const { agent, opencode, acpClient, sessionId } = await setup();
+    agent.sessions[sessionId].toolCallTerminals.set("call_bash", "term_1");
+
+    opencode.events.push(
+      bashPart({
+        status: "completed",
+        input: { command: "npm run build" },
+        output: "Exited with code 0.",
+        title: "",
+        metadata: {},
+        time: { start: 0, end: 1 },
+      }),
+    );
+
+    await vi.waitFor(() =>
+      expect(acpClient.sessionUpdate).toHaveBeenCalledWith({
+        sessionId,
+        update: expect.objectContaining({
+          sessionUpdate: "tool_call_update",
+          toolCallId: "call_bash",
+          status: "completed",
+          content: [{ type: "terminal", terminalId: "term_1" }],
+        }),
+      }),
+    );
+    expect(agent.sessions[sessionId].toolCallTerminals.size).toBe(0);
+  });
+
+  it("swaps OpenCode's file and shell tools for the editor's when OpenCode has them", async () => {
+    const opencode = createFakeOpencodeClient();
+    fakeOpencode.client = opencode;
+    const agent = new OpenCodeAcpAgent(
+      createFakeAcpClient() as unknown as AgentSideConnection,
+      "http://127.0.0.1:0",
+      null,
+      {},
+      true,
+    );
+    await agent.initialize({
+      protocolVersion: 1,
+      clientCapabilities: { fs: { readTextFile: true, writeTextFile: false }, terminal: true },
+    });
+    const { sessionId } = await agent.newSession({ cwd, mcpServers: [] });
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] });
+
+    expect(opencode.session.prompt).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({ tools: { read: false, bash: false } }),
+      }),
+    );
+
+    await agent.initialize({
+      protocolVersion: 1,
+      clientCapabilities: { fs: { readTextFile: false, writeTextFile: true } },
+    });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] });
+
+    // Every tool that writes files, so none of them bypasses the editor.
+    expect(opencode.session.prompt).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          tools: { write: false, edit: false, multiedit: false, patch: false },
+        }),
+      }),
+    );
+  });
+});
+
+describe("Editor MCP servers", () => {
+  let docsServer: http.Server;
+  let docsUrl: string;
+
+  beforeEach(async () => {
+    // A stateless MCP server with one tool that only answers with the right token.
+    docsServer = http.createServer(async (req, res) => {
+      if (req.headers.authorization !== "Bearer docs") {
+        res.writeHead(401).end();
+        return;
+      }
+      const server = new McpServer({ name: "docs", version: "1.0.0" });
+      server.registerTool(
+        "search",
+        { description: "Searches the docs", inputSchema: { query: z.string() } },
+        async ({ query }) => ({ content: [{ type: "text", text: `Results for ${query}` }] }),
+      );
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      res.on("close", () => transport.close());
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve) => docsServer.listen(0, "127.0.0.1", resolve));
+    docsUrl = `http://127.0.0.1:${(docsServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => docsServer.close(resolve));
+  });
+
+  async function setupWithMcpTools() {
+    const opencode = createFakeOpencodeClient();
+    fakeOpencode.client = opencode;
+    const acpClient = createFakeAcpClient();
+    const agent = new OpenCodeAcpAgent(
+      acpClient as unknown as AgentSideConnection,
+      "http://127.0.0.1:0",
+      null,
+      {},
+      true,
+    );
+    return { agent, opencode, acpClient };
+  }
+
+  it("connects sessions to their MCP servers and hides them from other sessions", async () => {
+    const { agent, opencode } = await setupWithMcpTools();
+    const { sessionId } = await agent.newSession({
+      cwd,
+      mcpServers: [
+        {
+          type: "http",
+          name: "docs",
+          url: docsUrl,
+          headers: [{ name: "Authorization", value: "Bearer docs" }],
+        },
+      ],
+    });
+    await vi.waitFor(() => expect(agent.sessions[sessionId].mcpConnections).toHaveLength(1));
+    const [connection] = agent.sessions[sessionId].mcpConnections;
+    expect(connection.tools.map((tool) => tool.name)).toEqual(["search"]);
+    await expect(
+      connection.client.callTool({ name: "search", arguments: { query: "hooks" } }),
+    ).resolves.toMatchObject({ content: [{ type: "text", text: "Results for hooks" }] });
+
+    opencode.session.create.mockResolvedValueOnce({ data: { id: "ses_other" } });
+    const { sessionId: otherSessionId } = await agent.newSession({ cwd, mcpServers: [] });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "hi" }] });
+    await agent.prompt({ sessionId: otherSessionId, prompt: [{ type: "text", text: "hi" }] });
+
+    expect(opencode.session.prompt.mock.calls.map(([options]: any) => options.body.tools)).toEqual([
+      {},
+      { editor_docs_search: false },
+    ]);
+
+    await agent.close();
+    expect(agent.sessions[sessionId].mcpConnections).toHaveLength(0);
+  });
+
+  it("connects to legacy SSE MCP servers", async () => {
+    // An SSE-only stand-in: the stream on GET /sse, messages on POST /messages.
+    const transports = new Map<string, SSEServerTransport>();
+    const sseServer = http.createServer(async (req, res) => {
+      if (req.headers.authorization !== "Bearer tools") {
+        res.writeHead(401).end();
+      } else if (req.method === "GET" && req.url === "/sse") {
+        const server = new McpServer({ name: "tools", version: "1.0.0" });
+        server.registerTool("ping", { description: "Pings" }, async () => ({
+          content: [{ type: "text", text: "pong" }],
+        }));
+        const transport = new SSEServerTransport("/messages", res);
+        transports.set(transport.sessionId, transport);
+        await server.connect(transport);
+      } else {
+        const sessionId = new URL(req.url!, "http://localhost").searchParams.get("sessionId");
+        await transports.get(sessionId!)!.handlePostMessage(req, res);
+      }
+    });
+    await new Promise<void>((resolve) => sseServer.listen(0, "127.0.0.1", resolve));
+    const { port } = sseServer.address() as AddressInfo;
+
+    try {
+      const { agent } = await setupWithMcpTools();
+      const { agentCapabilities } = await agent.initialize({ protocolVersion: 1 });
+      expect(agentCapabilities?.mcpCapabilities?.sse).toBe(true);
+
+      const { sessionId } = await agent.newSession({
+        cwd,
+        mcpServers: [
+          {
+            type: "sse",
+            name: "tools",
+            url: `http://127.0.0.1:${port}/sse`,
+            headers: [{ name: "Authorization", value: "Bearer tools" }],
+          },
+        ],
+      });
+      await vi.waitFor(() => expect(agent.sessions[sessionId].mcpConnections).toHaveLength(1));
+      const [connection] = agent.sessions[sessionId].mcpConnections;
+      await expect(connection.client.callTool({ name: "ping" })).resolves.toMatchObject({
+        content: [{ type: "text", text: "pong" }],
+      });
+
+      await agent.close();
+    } finally {
+      sseServer.closeAllConnections();
+      await new Promise((resolve) => sseServer.close(resolve));
+    }
+  });
+
+  it("tells the user about MCP servers it can't connect to", async () => {
+    const { agent, acpClient } = await setupWithMcpTools();
+
+    const { sessionId } = await agent.newSession({
+      cwd,
+      mcpServers: [
+        { name: "broken", command: path.join(cwd, "missing-server"), args: [], env: [] },
+        { type: "http", name: "locked", url: docsUrl, headers: [] },
+      ],
+    });
+
+    await vi.waitFor(() => {
+      const messages = acpClient.sessionUpdate.mock.calls
+        .map(([notification]: any) => notification.update.content?.text)
+        .filter(Boolean);
+      expect(messages).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining("Failed to connect to MCP server `broken`"),
+          expect.stringContaining("Failed to connect to MCP server `locked`"),
+        ]),
+      );
+    });
+    expect(agent.sessions[sessionId].mcpConnections).toHaveLength(0);
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { OpenCodeAcpAgent } from "../acp-agent.js";
+import { startMcpServer } from "../mcp-server.js";
+import { PermissionRuleStore } from "../permissions.js";
+
+function createFakeAgent(optionId: string) {
+  return {
+    sessions: {
+      ses_acp: {
+        cwd: "/project",
+        permissionMode: "default",
+        permissionRules: { decide: vi.fn(async () => undefined), addRule: vi.fn() },
+        toolCallTerminals: new Map(),
+      },
+    },
+    clientCapabilities: { fs: { readTextFile: true, writeTextFile: true } },
+    findToolCall: vi.fn(async () => ({ sessionId: "ses_acp", toolCallId: "call_1" })),
+    decideToolPermission: OpenCodeAcpAgent.prototype.decideToolPermission,
+    readTextFile: vi.fn(async () => ({ content: "one\ntwo\n" })),
+    writeTextFile: vi.fn(async () => ({})),
+    client: {
+      requestPermission: vi.fn(async () => ({ outcome: { outcome: "selected", optionId } })),
+      sessionUpdate: vi.fn(async () => {}),
+    },
+  };
+}
+
+let server: Server | undefined;
+let client: Client | undefined;
+
+afterEach(async () => {
+  await client?.close();
+  await new Promise((resolve) => server?.close(resolve));
+});
+
+async function connect(agent: ReturnType<typeof createFakeAgent>) {
+  server = await startMcpServer(() => agent as unknown as OpenCodeAcpAgent);
+  const { port } = server.address() as AddressInfo;
+  client = new Client({ name: "opencode", version: "1.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+  return client;
+}
+
+describe("startMcpServer", () => {
+  it("offers the editor's file tools", async () => {
+    const client = await connect(createFakeAgent("allow_once"));
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(["read", "write", "edit", "multi-edit"]);
+  });
+
+  it("runs tool calls in the session that made them once permission is granted", async () => {
+    const agent = createFakeAgent("allow_once");
+    const client = await connect(agent);
+
+    await client.callTool({
+      name: "write",
+      arguments: { abs_path: "/project/a.txt", content: "hello" },
+    });
+
+    expect(agent.findToolCall).toHaveBeenCalledWith("write", {
+      abs_path: "/project/a.txt",
+      content: "hello",
+    });
+    expect(agent.client.requestPermission).toHaveBeenCalledWith({
+      sessionId: "ses_acp",
+      toolCall: expect.objectContaining({ toolCallId: "call_1", kind: "edit" }),
+      // The same options as for OpenCode's own tools.
+      options: [
+        {
+          optionId: "allow_always",
+          name: "Always Allow `edit(a.txt)`",
+          kind: "allow_always",
+        },
+        { optionId: "allow_once", name: "Allow Once", kind: "allow_once" },
+        { optionId: "reject_once", name: "Deny", kind: "reject_once" },
+        {
+          optionId: "reject_always",
+          name: "Always Deny `edit(a.txt)`",
+          kind: "reject_always",
+        },
+      ],
+    });
+    expect(agent.writeTextFile).toHaveBeenCalledWith({
+      sessionId: "ses_acp",
+      path: "/project/a.txt",
+      content: "hello",
+    });
+  });
+
+  it("doesn't ask before reading", async () => {
+    const agent = createFakeAgent("allow_once");
+    const client = await connect(agent);
+
+    const result = await client.callTool({ name: "read", arguments: { abs_path: "/project/a" } });
+
+    expect(agent.client.requestPermission).not.toHaveBeenCalled();
+    expect((result.content as any)[0].text).toContain("one\ntwo\n");
+  });
+
+  it("reports rejected permissions as tool errors", async () => {
+    const agent = createFakeAgent("reject_once");
+    const client = await connect(agent);
+
+    const result = await client.callTool({
+      name: "write",
+      arguments: { abs_path: "/project/a.txt", content: "hello" },
+    });
+
+    expect(result).toMatchObject({
+      isError: true,
+      content: [{ type: "text", text: "Permission for tool 'edit' denied." }],
+    });
+    expect(agent.writeTextFile).not.toHaveBeenCalled();
+  });
+
+  it("applies OpenCode's edit rules to writes and multi-edits", async () => {
+    const agent = createFakeAgent("allow_once");
+    Object.assign(agent.sessions.ses_acp, {
+      permissionRules: new PermissionRuleStore("/project", [], {
+        permissions: { deny: ["edit(secrets/**)"] },
+      }),
+    });
+    const client = await connect(agent);
+
+    const results = [
+      await client.callTool({
+        name: "write",
+        arguments: { abs_path: "/project/secrets/key.txt", content: "hello" },
+      }),
+      await client.callTool({
+        name: "multi-edit",
+        arguments: {
+          file_path: "/project/secrets/key.txt",
+          edits: [{ old_string: "one", new_string: "1" }],
+        },
+      }),
+    ];
+
+    for (const result of results) {
+      expect(result).toMatchObject({
+        isError: true,
+        content: [{ type: "text", text: expect.stringContaining("deny rule `edit(secrets/**)`") }],
+      });
+    }
+    expect(agent.client.requestPermission).not.toHaveBeenCalled();
+    expect(agent.writeTextFile).not.toHaveBeenCalled();
+  });
+
+  it("doesn't kill commands in the editor's terminal after they exit", async () => {
+    const agent = createFakeAgent("allow_once");
+    const handle = {
+      id: "term_1",
+      waitForExit: vi.fn(async () => ({ exitCode: 0, signal: null })),
+      currentOutput: vi.fn(async () => ({ output: "done\n", truncated: false })),
+      kill: vi.fn(async () => ({})),
+      release: vi.fn(async () => ({})),
+    };
+    Object.assign(agent, {
+      clientCapabilities: { terminal: true },
+      backgroundTerminals: {},
+      findToolCallId: vi.fn(async () => "call_1"),
+    });
+    Object.assign(agent.client, { createTerminal: vi.fn(async () => handle) });
+    const client = await connect(agent);
+
+    await client.callTool({ name: "Bash", arguments: { command: "echo done", timeout_ms: 20 } });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(handle.release).toHaveBeenCalled();
+    expect(handle.kill).not.toHaveBeenCalled();
+  });
+});
+
+describe("editor MCP servers", () => {
+  function createAgentWithMcpConnection() {
+    const agent = createFakeAgent("allow_once");
+    const docs = {
+      name: "docs",
+      tools: [{ name: "search", inputSchema: { type: "object" as const } }],
+      client: {
+        callTool: vi.fn(async () => ({ content: [{ type: "text", text: "Results" }] })),
+      },
+    };
+    Object.assign(agent.sessions.ses_acp, { mcpConnections: [docs] });
+    return { agent, docs };
+  }
+
+  async function connectToEditorServers(agent: ReturnType<typeof createFakeAgent>) {
+    server = await startMcpServer(() => agent as unknown as OpenCodeAcpAgent);
+    const { port } = server.address() as AddressInfo;
+    client = new Client({ name: "opencode", version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/editor-mcp`)),
+    );
+    return client;
+  }
+
+  it("lists the tools of every session's servers under the server name", async () => {
+    const { agent } = createAgentWithMcpConnection();
+    const client = await connectToEditorServers(agent);
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(["docs_search"]);
+  });
+
+  it("forwards tool calls to the server of the session making them", async () => {
+    const { agent, docs } = createAgentWithMcpConnection();
+    const client = await connectToEditorServers(agent);
+
+    const result = await client.callTool({ name: "docs_search", arguments: { query: "hooks" } });
+
+    expect(agent.findToolCall).toHaveBeenCalledWith("docs_search", { query: "hooks" });
+    expect(docs.client.callTool).toHaveBeenCalledWith({
+      name: "search",
+      arguments: { query: "hooks" },
+    });
+    expect(result.content).toEqual([{ type: "text", text: "Results" }]);
+  });
+
+  it("asks for permission before forwarding tool calls", async () => {
+    const { agent, docs } = createAgentWithMcpConnection();
+    agent.client.requestPermission.mockResolvedValueOnce({
+      outcome: { outcome: "selected", optionId: "reject_once" },
+    });
+    const client = await connectToEditorServers(agent);
+
+    const result = await client.callTool({ name: "docs_search", arguments: { query: "hooks" } });
+
+    expect(agent.client.requestPermission).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionId: "ses_acp",
+        toolCall: expect.objectContaining({ toolCallId: "call_1", kind: "other" }),
+      }),
+    );
+    expect(docs.client.callTool).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      content: [{ type: "text", text: "Permission for tool 'docs_search' denied." }],
+      isError: true,
+    });
+  });
+});
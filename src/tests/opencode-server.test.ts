@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "node:fs/promises";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  checkServerHealth,
+  checkServerPermissions,
+  parseCliOptions,
+  startOpencodeServer,
+} from "../opencode-server.js";
+
+describe("parseCliOptions", () => {
+  it("should spawn a server on a random local port by default", () => {
+    expect(parseCliOptions([], {})).toEqual({
+      url: undefined,
+      headers: {},
+      hostname: "127.0.0.1",
+      port: 0,
+      configPath: undefined,
+      logLevel: undefined,
+      usageNotifications: false,
+    });
+  });
+
+  it("should parse server flags", () => {
+    expect(
+      parseCliOptions(
+        [
+          "--hostname",
+          "0.0.0.0",
+          "--port=4096",
+          "--config",
+          "oc.json",
+          "--log-level",
+          "debug",
+          "--usage-notifications",
+        ],
+        {},
+      ),
+    ).toMatchObject({
+      hostname: "0.0.0.0",
+      port: 4096,
+      configPath: path.resolve("oc.json"),
+      logLevel: "DEBUG",
+      usageNotifications: true,
+    });
+  });
+
+  it("should read the server URL and auth header from flags or the environment", () => {
+    const env = {
+      OPENCODE_BASE_URL: "http://shared:4096/",
+      OPENCODE_AUTH_HEADER: "Bearer from-env",
+    };
+    expect(parseCliOptions([], env)).toMatchObject({
+      url: "http://shared:4096",
+      headers: { Authorization: "Bearer from-env" },
+    });
+    expect(
+      parseCliOptions(["--url", "http://other:1234", "--auth-header", "X-Api-Key: secret"], env),
+    ).toMatchObject({
+      url: "http://other:1234",
+      headers: { "X-Api-Key": "secret" },
+    });
+  });
+
+  it("should reject invalid values", () => {
+    expect(() => parseCliOptions(["--port", "http"], {})).toThrow("Invalid --port: http");
+    expect(() => parseCliOptions(["--log-level", "loud"], {})).toThrow("Invalid --log-level");
+    expect(() => parseCliOptions(["--unknown"], {})).toThrow();
+  });
+});
+
+describe("startOpencodeServer", () => {
+  let binDir: string;
+  let originalPath: string | undefined;
+
+  beforeAll(async () => {
+    // A stand-in for `opencode serve` that records the config it was given.
+    binDir = await fs.mkdtemp(path.join(os.tmpdir(), "acp-opencode-"));
+    await fs.writeFile(
+      path.join(binDir, "opencode"),
+      [
+        "#!/bin/sh",
+        'printf "%s" "$OPENCODE_CONFIG_CONTENT" > "$(dirname "$0")/config.json"',
+        'echo "opencode server listening on http://127.0.0.1:4096"',
+        "sleep 10",
+      ].join("\n"),
+      { mode: 0o755 },
+    );
+    originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterAll(async () => {
+    process.env.PATH = originalPath;
+    await fs.rm(binDir, { recursive: true, force: true });
+  });
+
+  it("should make the server ask before editing, running commands and fetching", async () => {
+    const mcp = { acp: { type: "remote" as const, url: "http://127.0.0.1:1/mcp" } };
+    const server = await startOpencodeServer({
+      hostname: "127.0.0.1",
+      port: 0,
+      config: { mcp },
+    });
+    server.close();
+
+    expect(server.url).toBe("http://127.0.0.1:4096");
+    expect(JSON.parse(await fs.readFile(path.join(binDir, "config.json"), "utf8"))).toEqual({
+      mcp,
+      permission: { edit: "ask", bash: "ask", webfetch: "ask" },
+    });
+  });
+});
+
+describe("checkServerHealth", () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.headers.authorization !== "Bearer secret") {
+        res.writeHead(401).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end("{}");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should accept a server that answers API requests", async () => {
+    await expect(checkServerHealth(url, { Authorization: "Bearer secret" })).resolves.toEqual({});
+  });
+
+  it("should report rejected credentials", async () => {
+    await expect(checkServerHealth(url)).rejects.toThrow(`${url} is unhealthy: 401`);
+  });
+
+  it("should report unreachable servers", async () => {
+    await expect(checkServerHealth("http://127.0.0.1:1", {}, 1000)).rejects.toThrow(
+      "is unreachable",
+    );
+  });
+});
+
+describe("checkServerPermissions", () => {
+  it("should accept a server that asks before editing, running commands and fetching", () => {
+    expect(() =>
+      checkServerPermissions("http://127.0.0.1:4096", {
+        permission: { edit: "ask", bash: "ask", webfetch: "ask" },
+      }),
+    ).not.toThrow();
+  });
+
+  it("should reject a server that runs tools without asking", () => {
+    expect(() =>
+      checkServerPermissions("http://127.0.0.1:4096", {
+        permission: { edit: "ask", bash: { "git status": "allow" } },
+      }),
+    ).toThrow("http://127.0.0.1:4096 doesn't ask before bash, webfetch");
+    expect(() => checkServerPermissions("http://127.0.0.1:4096", {})).toThrow(
+      "doesn't ask before edit, bash, webfetch",
+    );
+  });
+});
@@ -4,6 +4,8 @@ import {
   ToolCallLocation,
   ToolKind,
 } from "@zed-industries/agent-client-protocol";
+import * as path from "node:path";
+import { ToolStateCompleted, ToolStateError } from "@opencode-ai/sdk";
 import { replaceAndCalculateLocation, SYSTEM_REMINDER, toolNames } from "./mcp-server.js";
 
 interface ToolInfo {
@@ -516,6 +518,420 @@ export function toolUpdateFromToolResult(
   }
 }
 
+/**
+ * Title, kind, content and locations for a call of one of OpenCode's tools, from its input. The
+ * tools of the adapter's `acp` MCP server are listed to OpenCode as `acp_<tool>`. Edits are
+ * located on the lines they change when `fileContent`, the file before the edit, is known.
+ */
+export function toolInfoFromToolPart(
+  tool: string,
+  input: { [key: string]: any },
+  fileContent: string | null = null,
+): ToolInfo {
+  const filePath: string | undefined = input.filePath ?? input.abs_path ?? input.file_path;
+  switch (tool) {
+    case "bash":
+    case "acp_Bash":
+      return {
+        title: input.command ? "`" + input.command.replaceAll("`", "\\`") + "`" : "Terminal",
+        kind: "execute",
+        content: input.description
+          ? [{ type: "content", content: { type: "text", text: input.description } }]
+          : [],
+      };
+
+    case "acp_BashOutput":
+      return { title: "Tail Logs", kind: "execute", content: [] };
+
+    case "acp_KillBash":
+      return { title: "Kill Process", kind: "execute", content: [] };
+
+    case "read":
+    case "acp_read": {
+      let range = "";
+      if (input.limit) {
+        range = ` (${(input.offset ?? 0) + 1} - ${(input.offset ?? 0) + input.limit})`;
+      } else if (input.offset) {
+        range = ` (from line ${input.offset + 1})`;
+      }
+      return {
+        title: filePath ? `Read \`${filePath}\`${range}` : "Read File",
+        kind: "read",
+        content: [],
+        locations: filePath ? [{ path: filePath, line: input.offset ?? 0 }] : [],
+      };
+    }
+
+    case "edit":
+    case "multiedit":
+    case "acp_edit":
+    case "acp_multi-edit":
+      return {
+        title: filePath ? `Edit \`${filePath}\`` : "Edit",
+        kind: "edit",
+        content: [],
+        locations: filePath
+          ? editLocations(filePath, editsFromInput(tool, input), fileContent)
+          : [],
+      };
+
+    case "write":
+    case "acp_write":
+      return {
+        title: filePath ? `Write \`${filePath}\`` : "Write",
+        kind: "edit",
+        content: [],
+        locations: filePath ? [{ path: filePath }] : [],
+      };
+
+    case "patch":
+      return { title: "Apply Patch", kind: "edit", content: [] };
+
+    case "list":
+      return {
+        title: `List the ${input.path ? "`" + input.path + "`" : "current"} directory's contents`,
+        kind: "search",
+        content: [],
+        locations: input.path ? [{ path: input.path }] : [],
+      };
+
+    case "glob":
+      return {
+        title: input.pattern
+          ? `Find \`${input.pattern}\`${input.path ? ` in \`${input.path}\`` : ""}`
+          : "Find",
+        kind: "search",
+        content: [],
+        locations: input.path ? [{ path: input.path }] : [],
+      };
+
+    case "grep": {
+      if (!input.pattern) {
+        return { title: "grep", kind: "search", content: [] };
+      }
+      let label = `grep '${input.pattern}'`;
+      if (input.include) {
+        label += ` --include="${input.include}"`;
+      }
+      if (input.path) {
+        label += ` in ${input.path}`;
+      }
+      return {
+        title: label,
+        kind: "search",
+        content: [],
+        locations: input.path ? [{ path: input.path }] : [],
+      };
+    }
+
+    case "webfetch":
+      return { title: input.url ? `Fetch ${input.url}` : "Fetch", kind: "fetch", content: [] };
+
+    case "task":
+      return {
+        title: input.description ?? "Task",
+        kind: "think",
+        content: input.prompt
+          ? [{ type: "content", content: { type: "text", text: input.prompt } }]
+          : [],
+      };
+
+    case "todowrite":
+      return { title: "Update TODOs", kind: "think", content: [] };
+
+    case "todoread":
+      return { title: "Read TODOs", kind: "think", content: [] };
+
+    default:
+      return { title: tool || "Unknown Tool", kind: "other", content: [] };
+  }
+}
+
+/**
+ * Content and locations for the result of a completed or failed call of one of OpenCode's tools.
+ * Writes are shown as a diff against `previousContent`, the file's content before the call, when
+ * known.
+ */
+export function toolUpdateFromToolPart(
+  tool: string,
+  state: ToolStateCompleted | ToolStateError,
+  previousContent: string | null = null,
+): ToolUpdate {
+  if (state.status === "error") {
+    return toAcpContentUpdate(state.error, true);
+  }
+  const input = state.input as { [key: string]: any };
+  switch (tool) {
+    case "edit":
+    case "multiedit": {
+      // Newer servers also report the whole file before and after the edit.
+      const filediff = state.metadata.filediff as { before: string; after: string } | undefined;
+      const diffs: ToolCallContent[] = filediff
+        ? [
+            {
+              type: "diff",
+              path: input.filePath,
+              oldText: filediff.before,
+              newText: filediff.after,
+            },
+          ]
+        : typeof state.metadata.diff === "string"
+          ? diffsFromUnifiedDiff(input.filePath, state.metadata.diff)
+          : [];
+      return {
+        // The output only has the file's diagnostics, if any.
+        content: [...diffs, ...(toAcpContentUpdate(state.output).content ?? [])],
+        locations:
+          typeof state.metadata.diff === "string"
+            ? locationsFromUnifiedDiff(input.filePath, state.metadata.diff)
+            : editLocations(
+                input.filePath,
+                editsFromInput(tool, input),
+                filediff?.before ?? previousContent,
+              ),
+      };
+    }
+
+    case "acp_edit":
+      return {
+        locations: editLocations(input.abs_path, editsFromInput(tool, input), previousContent),
+        content: [
+          {
+            type: "diff",
+            path: input.abs_path,
+            oldText: input.old_string,
+            newText: input.new_string,
+          },
+        ],
+      };
+
+    case "acp_multi-edit":
+      return {
+        locations: editLocations(input.file_path, editsFromInput(tool, input), previousContent),
+        content: (input.edits as { old_string: string; new_string: string }[]).map((edit) => ({
+          type: "diff",
+          path: input.file_path,
+          oldText: edit.old_string,
+          newText: edit.new_string,
+        })),
+      };
+
+    case "write":
+    case "acp_write":
+      return {
+        content: [
+          {
+            type: "diff",
+            path: input.filePath ?? input.abs_path,
+            oldText: previousContent,
+            newText: input.content,
+          },
+        ],
+      };
+
+    case "patch":
+      return { content: diffsFromPatchText(input.patchText ?? "") };
+
+    case "grep":
+      return { ...fencedOutput(state.output), locations: locationsFromGrepOutput(state.output) };
+
+    case "glob":
+      return {
+        ...fencedOutput(state.output),
+        // The matching files, one per line.
+        locations: state.output
+          .split("\n")
+          .filter((line) => path.isAbsolute(line))
+          .map((line) => ({ path: line })),
+      };
+
+    case "read":
+    case "acp_read":
+    case "bash":
+    case "acp_Bash":
+    case "acp_BashOutput":
+    case "list":
+      return fencedOutput(state.output);
+
+    default:
+      return toAcpContentUpdate(state.output);
+  }
+}
+
+function fencedOutput(output: string): ToolUpdate {
+  output = output.replace(SYSTEM_REMINDER, "");
+  return output.trim()
+    ? { content: [{ type: "content", content: { type: "text", text: markdownEscape(output) } }] }
+    : {};
+}
+
+// The replacements an edit tool's input asks for.
+function editsFromInput(
+  tool: string,
+  input: { [key: string]: any },
+): { oldText: string; newText: string; replaceAll?: boolean }[] {
+  switch (tool) {
+    case "edit":
+      return [{ oldText: input.oldString, newText: input.newString, replaceAll: input.replaceAll }];
+    case "multiedit":
+      return (input.edits ?? []).map((edit: any) => ({
+        oldText: edit.oldString,
+        newText: edit.newString,
+        replaceAll: edit.replaceAll,
+      }));
+    case "acp_edit":
+      return [{ oldText: input.old_string, newText: input.new_string }];
+    case "acp_multi-edit":
+      return (input.edits ?? []).map((edit: any) => ({
+        oldText: edit.old_string,
+        newText: edit.new_string,
+        replaceAll: edit.replace_all,
+      }));
+    default:
+      return [];
+  }
+}
+
+// The lines `edits` change in the file at `filePath`, or just the file when its content before
+// the edits is unknown or they don't apply to it.
+function editLocations(
+  filePath: string,
+  edits: { oldText: string; newText: string; replaceAll?: boolean }[],
+  fileContent: string | null,
+): ToolCallLocation[] {
+  const valid = edits.every(
+    (edit) => typeof edit.oldText === "string" && typeof edit.newText === "string",
+  );
+  if (fileContent !== null && edits.length > 0 && valid) {
+    try {
+      const { lineNumbers } = replaceAndCalculateLocation(fileContent, edits);
+      return lineNumbers.map((line) => ({ path: filePath, line }));
+    } catch {
+      // Most likely the edits already landed.
+    }
+  }
+  return [{ path: filePath }];
+}
+
+/** The first changed line of each hunk of a unified diff of `path`, in the new file. */
+export function locationsFromUnifiedDiff(path: string, unifiedDiff: string): ToolCallLocation[] {
+  const locations: ToolCallLocation[] = [];
+  let line: number | null = null; // next line of the new file, from 0
+  let located = false;
+  for (const text of unifiedDiff.split("\n")) {
+    const header = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (header) {
+      line = Math.max(Number(header[1]) - 1, 0);
+      located = false;
+    } else if (line !== null && (text.startsWith("+") || text.startsWith("-"))) {
+      if (!located) {
+        locations.push({ path, line });
+        located = true;
+      }
+      if (text.startsWith("+")) {
+        line++;
+      }
+    } else if (line !== null && text.startsWith(" ")) {
+      line++;
+    }
+  }
+  return locations;
+}
+
+/**
+ * The matches listed by OpenCode's grep tool, which prints each file's path followed by its
+ * matching lines as `  Line <n>: <text>`.
+ */
+export function locationsFromGrepOutput(output: string): ToolCallLocation[] {
+  const locations: ToolCallLocation[] = [];
+  let file: string | undefined;
+  for (const line of output.split("\n")) {
+    const match = line.match(/^\s+Line (\d+):/);
+    if (match && file) {
+      locations.push({ path: file, line: Number(match[1]) - 1 });
+    } else if (line.endsWith(":") && path.isAbsolute(line.slice(0, -1))) {
+      file = line.slice(0, -1);
+    }
+  }
+  return locations;
+}
+
+/** Diffs for the hunks of a unified diff of `path`, such as OpenCode's edit tool reports. */
+export function diffsFromUnifiedDiff(path: string, unifiedDiff: string): ToolCallContent[] {
+  const hunks: { oldLines: string[]; newLines: string[] }[] = [];
+  for (const line of unifiedDiff.split("\n")) {
+    if (line.startsWith("@@")) {
+      hunks.push({ oldLines: [], newLines: [] });
+      continue;
+    }
+    // Skip the file headers before the first hunk.
+    const hunk = hunks[hunks.length - 1];
+    if (!hunk) {
+      continue;
+    }
+    if (line.startsWith(" ") || line.startsWith("-")) {
+      hunk.oldLines.push(line.slice(1));
+    }
+    if (line.startsWith(" ") || line.startsWith("+")) {
+      hunk.newLines.push(line.slice(1));
+    }
+  }
+  return hunks.map((hunk) => ({
+    type: "diff",
+    path,
+    oldText: hunk.oldLines.join("\n"),
+    newText: hunk.newLines.join("\n"),
+  }));
+}
+
+/**
+ * Diffs for the files of a patch passed to OpenCode's patch tool, which are added, deleted or
+ * updated with `*** Add File: <path>`, `*** Delete File: <path>` and `*** Update File: <path>`
+ * sections.
+ */
+export function diffsFromPatchText(patchText: string): ToolCallContent[] {
+  const content: ToolCallContent[] = [];
+  let file: { path: string; added: boolean; oldLines: string[]; newLines: string[] } | null = null;
+  const flush = () => {
+    if (file && (file.oldLines.length > 0 || file.newLines.length > 0)) {
+      content.push({
+        type: "diff",
+        path: file.path,
+        oldText: file.added ? null : file.oldLines.join("\n"),
+        newText: file.newLines.join("\n"),
+      });
+    }
+    if (file) {
+      file = { ...file, oldLines: [], newLines: [] };
+    }
+  };
+  for (const line of patchText.split("\n")) {
+    const header = line.match(/^\*\*\* (Add|Delete|Update) File: (.+)$/);
+    if (header) {
+      flush();
+      file = { path: header[2], added: header[1] === "Add", oldLines: [], newLines: [] };
+      if (header[1] === "Delete") {
+        content.push({ type: "content", content: { type: "text", text: `Deleted ${header[2]}` } });
+        file = null;
+      }
+    } else if (line.startsWith("***")) {
+      // `*** Move to:`, `*** Begin Patch`, `*** End Patch` and `*** End of File`
+      continue;
+    } else if (line.startsWith("@@")) {
+      flush();
+    } else if (file) {
+      if (line.startsWith(" ") || line.startsWith("-")) {
+        file.oldLines.push(line.slice(1));
+      }
+      if (line.startsWith(" ") || line.startsWith("+")) {
+        file.newLines.push(line.slice(1));
+      }
+    }
+  }
+  flush();
+  return content;
+}
+
 function toAcpContentUpdate(
   content: any,
   isError: boolean = false,
@@ -549,18 +965,21 @@ function toAcpContentUpdate(
   return {};
 }
 
-type ClaudePlanEntry = {
+/** A todo of OpenCode's `todowrite` and `todoread` tools, or of Claude Code's TodoWrite. */
+export type Todo = {
   content: string;
-  status: "pending" | "in_progress" | "completed";
-  activeForm: string;
+  status: "pending" | "in_progress" | "completed" | "cancelled";
+  priority?: "high" | "medium" | "low";
+  activeForm?: string;
 };
 
-export function planEntries(input: { todos: ClaudePlanEntry[] }): PlanEntry[] {
-  return input.todos.map((input) => ({
-    content: input.content,
-    status: input.status,
-    priority: "medium",
-  }));
+export function planEntries(input: { todos: Todo[] }): PlanEntry[] {
+  // ACP plans have no cancelled entries; a cancelled todo is no longer part of the plan.
+  return input.todos.flatMap((todo) =>
+    todo.status === "cancelled"
+      ? []
+      : [{ content: todo.content, status: todo.status, priority: todo.priority ?? "medium" }],
+  );
 }
 
 export function markdownEscape(text: string): string {
@@ -3,7 +3,9 @@
 import { Readable, Writable } from "node:stream";
 import { WritableStream, ReadableStream } from "node:stream/web";
 import { readFileSync } from "node:fs";
-import { platform } from "node:os";
+import * as fs from "node:fs/promises";
+import { homedir, platform } from "node:os";
+import * as path from "node:path";
 
 // Useful for bridging push-based and async-iterator-based code.
 export class Pushable<T> implements AsyncIterable<T> {
@@ -83,7 +85,7 @@ export function sleep(time: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, time));
 }
 
-interface ManagedSettings {
+export interface ManagedSettings {
   permissions?: {
     allow?: string[];
     deny?: string[];
@@ -123,6 +125,41 @@ export function applyEnvironmentSettings(settings: ManagedSettings): void {
   }
 }
 
+// Which OpenCode session `/resume` attached each ACP session to, keyed by ACP session ID.
+function resumedSessionsPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(homedir(), ".config");
+  return path.join(configHome, "opencode", "acp-resumed-sessions.json");
+}
+
+async function readResumedSessions(): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await fs.readFile(resumedSessionsPath(), "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+/** The OpenCode session an ACP session was resumed into, if it was. */
+export async function loadResumedSession(sessionId: string): Promise<string | undefined> {
+  return (await readResumedSessions())[sessionId];
+}
+
+/** Records the OpenCode session an ACP session continues in, so reloading it shows that one. */
+export async function saveResumedSession(
+  sessionId: string,
+  opencodeSessionId: string,
+): Promise<void> {
+  const sessions = await readResumedSessions();
+  if (opencodeSessionId === sessionId) {
+    delete sessions[sessionId];
+  } else {
+    sessions[sessionId] = opencodeSessionId;
+  }
+  const filePath = resumedSessionsPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(sessions, null, 2) + "\n");
+}
+
 export interface ExtractLinesResult {
   content: string;
   actualEndLine: number;